@@ -0,0 +1,153 @@
+/**
+ * BoardFiles - Board definitions stored in the vault
+ *
+ * A board can live in a dedicated `*.kanban.json` file or in a note's
+ * frontmatter (`kanban-query`, `kanban-columns`, ...), so it can be versioned
+ * and shared together with the notes it describes.
+ */
+
+import type { BoardColumn, BoardDefinition } from './Boards';
+import { resolveMobileLayout } from './PointerDrag';
+import type { QuickAddSettings } from './QuickAdd';
+import type { SwimlaneSettings } from './Swimlanes';
+import type { UnsortedPolicy } from './TaskGrouping';
+
+export const BOARD_FILE_SUFFIX = '.kanban.json';
+
+/** Prefix of the ids of boards loaded from files */
+export const FILE_BOARD_ID_PREFIX = 'file:';
+
+/** Frontmatter keys and the board properties they map to */
+const FRONTMATTER_KEYS = {
+    'kanban-name': 'name',
+    'kanban-query': 'datacoreQuery',
+    'kanban-columns': 'columns',
+    'kanban-swimlanes': 'swimlanes',
+    'kanban-unsorted': 'unsortedPolicy',
+    'kanban-card-max-height': 'cardMaxHeight',
+    'kanban-show-due-date': 'showDueDate',
+    'kanban-show-priority': 'showPriority',
+    'kanban-show-tags': 'showTags',
+    'kanban-quick-add': 'quickAdd',
+    'kanban-mobile-layout': 'mobileLayout'
+} as const;
+
+const DEFAULT_COLUMN_COLOR = 'var(--text-muted)';
+
+export function isBoardFile(path: string): boolean {
+    return path.toLowerCase().endsWith(BOARD_FILE_SUFFIX);
+}
+
+/**
+ * Whether a note's frontmatter defines a board
+ */
+export function hasBoardFrontmatter(frontmatter: Record<string, unknown> | undefined): boolean {
+    return !!frontmatter && ('kanban-query' in frontmatter || 'kanban-columns' in frontmatter);
+}
+
+export function getFileBoardId(path: string): string {
+    return `${FILE_BOARD_ID_PREFIX}${path}`;
+}
+
+/**
+ * Parse the content of a `*.kanban.json` file
+ */
+export function parseBoardJson(content: string, path: string): BoardDefinition {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`${path} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!isRecord(data)) {
+        throw new Error(`${path} must contain a JSON object`);
+    }
+    return toBoard(data, path);
+}
+
+/**
+ * Read a board from a note's frontmatter
+ */
+export function parseBoardFrontmatter(frontmatter: Record<string, unknown>, path: string): BoardDefinition {
+    const data: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(FRONTMATTER_KEYS)) {
+        if (frontmatter[key] !== undefined) {
+            data[property] = frontmatter[key];
+        }
+    }
+    return toBoard(data, path);
+}
+
+/**
+ * Serialize a board for a `*.kanban.json` file; the file path is its identity,
+ * so the id is not written
+ */
+export function serializeBoard(board: BoardDefinition): string {
+    return JSON.stringify({ ...board, id: undefined }, null, 2) + '\n';
+}
+
+/**
+ * Pick a path for an exported board that doesn't clash with existing files
+ */
+export function getBoardFilePath(name: string, folder: string, exists: (path: string) => boolean): string {
+    const base = name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Board';
+    const prefix = folder && folder !== '/' ? `${folder}/` : '';
+
+    let path = `${prefix}${base}${BOARD_FILE_SUFFIX}`;
+    for (let suffix = 2; exists(path); suffix++) {
+        path = `${prefix}${base} ${suffix}${BOARD_FILE_SUFFIX}`;
+    }
+    return path;
+}
+
+function toBoard(data: Record<string, unknown>, path: string): BoardDefinition {
+    if (typeof data.datacoreQuery !== 'string' || !data.datacoreQuery.trim()) {
+        throw new Error(`${path} has no board query`);
+    }
+    if (!Array.isArray(data.columns) || data.columns.length === 0) {
+        throw new Error(`${path} has no board columns`);
+    }
+
+    const board: BoardDefinition = {
+        id: getFileBoardId(path),
+        name: typeof data.name === 'string' && data.name.trim() ? data.name : getFileBaseName(path),
+        datacoreQuery: data.datacoreQuery,
+        columns: data.columns.map((column, index) => toColumn(column, index, path))
+    };
+
+    if (isRecord(data.swimlanes)) board.swimlanes = data.swimlanes as unknown as SwimlaneSettings;
+    if (typeof data.unsortedPolicy === 'string') board.unsortedPolicy = data.unsortedPolicy as UnsortedPolicy;
+    if (typeof data.cardMaxHeight === 'number') board.cardMaxHeight = data.cardMaxHeight;
+    if (typeof data.showDueDate === 'boolean') board.showDueDate = data.showDueDate;
+    if (typeof data.showPriority === 'boolean') board.showPriority = data.showPriority;
+    if (typeof data.showTags === 'boolean') board.showTags = data.showTags;
+    if (isRecord(data.quickAdd)) board.quickAdd = data.quickAdd as QuickAddSettings;
+    if (typeof data.mobileLayout === 'string') board.mobileLayout = resolveMobileLayout(data.mobileLayout);
+    return board;
+}
+
+function toColumn(value: unknown, index: number, path: string): BoardColumn {
+    if (!isRecord(value) || typeof value.name !== 'string') {
+        throw new Error(`${path}: column ${index + 1} needs a name`);
+    }
+    if (typeof value.tag !== 'string' && !isRecord(value.rule)) {
+        throw new Error(`${path}: column "${value.name}" needs a tag or a rule`);
+    }
+
+    return {
+        ...value,
+        id: typeof value.id === 'string' ? value.id : value.name.toLowerCase().replace(/\s+/g, '-'),
+        name: value.name,
+        tag: typeof value.tag === 'string' ? value.tag : '',
+        color: typeof value.color === 'string' ? value.color : DEFAULT_COLUMN_COLOR
+    } as BoardColumn;
+}
+
+function getFileBaseName(path: string): string {
+    const name = path.split('/').pop() ?? path;
+    return isBoardFile(name) ? name.slice(0, -BOARD_FILE_SUFFIX.length) : name.replace(/\.md$/, '');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
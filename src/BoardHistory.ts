@@ -0,0 +1,202 @@
+/**
+ * BoardHistory - Undo/redo stack of board operations
+ *
+ * Each operation records, per touched line, the line text before and after
+ * the write (and where the line ended up when it was moved). Undo and redo
+ * locate the line by the hash of the text they expect to find, with the same
+ * search as forward writes, so a line edited by hand since is never
+ * overwritten: the operation fails instead. Lines that are put back (deleted
+ * or moved ones) are placed in front of the line they followed, found the
+ * same way, rather than at a line number the note may have outgrown.
+ */
+
+import { getTaskBlockEnd, moveTaskLine } from './CardOrdering';
+import { TaskWriteError } from './TaskErrors';
+import { hashTaskLine, LOCATE_WINDOW, requireTaskLine } from './TaskLocator';
+
+export type BoardOperationKind = 'status' | 'reorder' | 'completion' | 'tag' | 'edit';
+
+export interface LineChange {
+    path: string;
+    /** 0-based line before the change */
+    line: number;
+    before: string;
+    after: string;
+    /** 0-based line after the change, when the line was moved */
+    movedTo?: number;
+    /** The line was deleted; undo inserts `before` again at `line` */
+    removed?: boolean;
+    /**
+     * `hashTaskLine` of the line that followed the line (and its sub-items)
+     * at `line` before the change, or null at the end of the note; undo puts
+     * a deleted or moved line back in front of it
+     */
+    next?: string | null;
+    /** Like `next`, for the line that follows a moved line at `movedTo`; redo moves it back in front of it */
+    movedNext?: string | null;
+}
+
+export interface BoardOperation {
+    kind: BoardOperationKind;
+    /** Short description for toasts, e.g. `Moved "Deploy" to Done` */
+    label: string;
+    changes: LineChange[];
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+/** How many operations are kept */
+export const HISTORY_LIMIT = 50;
+
+export class BoardHistory {
+    private undoStack: BoardOperation[] = [];
+    private redoStack: BoardOperation[] = [];
+
+    constructor(private limit = HISTORY_LIMIT) {}
+
+    /**
+     * Record a completed operation; a new operation clears the redo stack
+     */
+    record(operation: BoardOperation): void {
+        if (operation.changes.length === 0) return;
+        this.undoStack.push(operation);
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Revert the last operation with `apply`; resolves to the operation, or
+     * null if there is nothing to undo. An operation that fails to apply stays
+     * on its stack, so it can be tried again once the note is fixed; `apply`
+     * must then leave the notes as it found them.
+     */
+    async undo(apply: (operation: BoardOperation, direction: HistoryDirection) => Promise<void>): Promise<BoardOperation | null> {
+        return this.step(this.undoStack, this.redoStack, 'undo', apply);
+    }
+
+    /**
+     * Re-apply the last undone operation; see `undo`
+     */
+    async redo(apply: (operation: BoardOperation, direction: HistoryDirection) => Promise<void>): Promise<BoardOperation | null> {
+        return this.step(this.redoStack, this.undoStack, 'redo', apply);
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    private async step(
+        from: BoardOperation[],
+        to: BoardOperation[],
+        direction: HistoryDirection,
+        apply: (operation: BoardOperation, direction: HistoryDirection) => Promise<void>
+    ): Promise<BoardOperation | null> {
+        const operation = from.pop();
+        if (!operation) return null;
+
+        try {
+            await apply(operation, direction);
+        } catch (error) {
+            from.push(operation);
+            throw error;
+        }
+        to.push(operation);
+        return operation;
+    }
+}
+
+/**
+ * Group the changes of an operation by file, keeping their order
+ */
+export function groupChangesByPath(changes: LineChange[]): Map<string, LineChange[]> {
+    const byPath = new Map<string, LineChange[]>();
+    for (const change of changes) {
+        byPath.set(change.path, [...(byPath.get(change.path) ?? []), change]);
+    }
+    return byPath;
+}
+
+/**
+ * The `next` of a change: the hash of the line at `index`, or null past the end of the note
+ */
+export function hashNextLine(lines: readonly string[], index: number): string | null {
+    const line = lines[index];
+    return line === undefined ? null : hashTaskLine(line);
+}
+
+/**
+ * Undo or redo the changes of one file on its content; throws if a line no
+ * longer holds the expected text
+ */
+export function applyLineChanges(content: string, changes: LineChange[], direction: HistoryDirection): string {
+    const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+    return ordered.reduce((current, change) => applyLineChange(current, change, direction), content);
+}
+
+function applyLineChange(content: string, change: LineChange, direction: HistoryDirection): string {
+    if (change.removed) return applyLineRemoval(content, change, direction);
+
+    const movedTo = change.movedTo ?? change.line;
+    const [expected, replacement] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+    const [from, to] = direction === 'undo' ? [movedTo, change.line] : [change.line, movedTo];
+
+    const lines = content.split('\n');
+    const index = requireTaskLine(lines, { path: change.path, line: from, hash: hashTaskLine(expected) });
+    lines[index] = replacement;
+    if (from === to) return lines.join('\n');
+
+    // Move the line with its sub-items in front of the line it followed there, expected at the
+    // recorded position shifted like the line itself (changes recorded without it go there)
+    const end = getTaskBlockEnd(lines, index);
+    const shifted = to + index - from;
+    const position = shifted > index ? shifted + end - index : shifted;
+    const next = direction === 'undo' ? change.next : change.movedNext;
+    const target = next === undefined ? position : locateNextLine(lines, next, position, change.path, [index, end]);
+    return moveTaskLine(lines.join('\n'), index, target);
+}
+
+// Put a deleted line back in front of the line that followed it, or delete it again
+function applyLineRemoval(content: string, change: LineChange, direction: HistoryDirection): string {
+    const lines = content.split('\n');
+    if (direction === 'undo') {
+        const at = change.next === undefined
+            ? Math.min(change.line, lines.length)
+            : locateNextLine(lines, change.next, change.line, change.path);
+        lines.splice(at, 0, change.before);
+    } else {
+        lines.splice(requireTaskLine(lines, { path: change.path, line: change.line, hash: hashTaskLine(change.before) }), 1);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Find the line a restored line goes in front of, nearest to where it is
+ * expected and outside the `skip` range (the moving block); null stands for
+ * the end of the note. Throws if the line is gone, since the spot is then unknown.
+ */
+function locateNextLine(lines: readonly string[], hash: string | null, expected: number, path: string, skip: [number, number] = [0, 0]): number {
+    if (hash === null) return lines.length;
+    const [skipStart, skipEnd] = skip;
+    for (let distance = 0; distance <= LOCATE_WINDOW; distance++) {
+        for (const index of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+            const line = lines[index];
+            if (line === undefined || (index >= skipStart && index < skipEnd)) continue;
+            if (hashTaskLine(line) === hash) return index;
+        }
+    }
+    throw new TaskWriteError(
+        'line-moved',
+        `The lines around ${path}:${expected + 1} changed since the board operation, so the note was not modified`,
+        path,
+        expected
+    );
+}
@@ -0,0 +1,148 @@
+/**
+ * BoardKeyboard - Keyboard focus and drop targets on the board grid
+ *
+ * The board is a grid of cells: one row per visible swimlane (a single row
+ * without swimlanes) and one cell per column, each listing its cards in
+ * display order. Focus is kept by task id so it follows a card that moved;
+ * an empty cell is focused as a whole.
+ */
+
+export interface KeyboardCell {
+    /** Unique per column and lane, see `getCellKey` */
+    key: string;
+    columnId: string;
+    laneKey?: string | undefined;
+    taskIds: string[];
+}
+
+export interface BoardFocus {
+    cell: string;
+    /** Focused card, or null for the cell itself */
+    taskId: string | null;
+}
+
+/** A card picked up with the keyboard, and the cell it would drop into */
+export interface KeyboardGrab {
+    taskId: string;
+    fromCell: string;
+    targetCell: string;
+}
+
+export type FocusMove = 'up' | 'down' | 'left' | 'right' | 'first' | 'last';
+
+/** Board actions exposed as commands, so their hotkeys can be rebound */
+export type BoardCommand = 'focus' | 'pick-up' | 'move-left' | 'move-right' | 'cancel';
+
+/** Arrow keys and the moves they make */
+export const ARROW_MOVES: Record<string, FocusMove> = {
+    ArrowUp: 'up',
+    ArrowDown: 'down',
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+    Home: 'first',
+    End: 'last'
+};
+
+/**
+ * Key of the cell of a column, within a swimlane when given
+ */
+export function getCellKey(columnId: string, laneKey?: string): string {
+    return laneKey === undefined ? columnId : `${columnId}:${laneKey}`;
+}
+
+/**
+ * Check a focus against the current grid: a card that moved is followed to
+ * its new cell, a card that is gone leaves the focus on its cell, and without
+ * a focus the first card (or cell) is used
+ */
+export function resolveBoardFocus(rows: KeyboardCell[][], focus: BoardFocus | null): BoardFocus | null {
+    if (focus) {
+        const cell = findCell(rows, focus.cell)?.cell;
+        if (focus.taskId !== null) {
+            if (cell?.taskIds.includes(focus.taskId)) return focus;
+            const moved = findTaskFocus(rows, focus.taskId);
+            if (moved) return moved;
+        }
+        if (cell) return { cell: cell.key, taskId: cell.taskIds[0] ?? null };
+    }
+
+    const first = rows[0]?.[0];
+    return first ? { cell: first.key, taskId: first.taskIds[0] ?? null } : null;
+}
+
+/**
+ * Move the focus: up and down within a cell (crossing into the lane above or
+ * below at its ends), left and right to the neighbouring column at the same
+ * position, first and last within the cell
+ */
+export function moveBoardFocus(rows: KeyboardCell[][], focus: BoardFocus, move: FocusMove): BoardFocus {
+    const found = findCell(rows, focus.cell);
+    if (!found) return focus;
+    const { cell, row, column } = found;
+    const index = focus.taskId === null ? -1 : cell.taskIds.indexOf(focus.taskId);
+
+    switch (move) {
+        case 'first':
+            return { cell: cell.key, taskId: cell.taskIds[0] ?? null };
+        case 'last':
+            return { cell: cell.key, taskId: cell.taskIds[cell.taskIds.length - 1] ?? null };
+        case 'up': {
+            if (index > 0) return { cell: cell.key, taskId: cell.taskIds[index - 1] ?? null };
+            const above = rows[row - 1]?.[column];
+            return above ? { cell: above.key, taskId: above.taskIds[above.taskIds.length - 1] ?? null } : focus;
+        }
+        case 'down': {
+            if (index < cell.taskIds.length - 1) return { cell: cell.key, taskId: cell.taskIds[index + 1] ?? null };
+            const below = rows[row + 1]?.[column];
+            return below ? { cell: below.key, taskId: below.taskIds[0] ?? null } : focus;
+        }
+        case 'left':
+        case 'right': {
+            const next = rows[row]?.[column + (move === 'left' ? -1 : 1)];
+            if (!next) return focus;
+            const position = Math.min(Math.max(index, 0), next.taskIds.length - 1);
+            return { cell: next.key, taskId: next.taskIds[position] ?? null };
+        }
+    }
+}
+
+/**
+ * Move the drop target of a picked-up card: left and right between columns,
+ * up and down between swimlanes; returns the new cell key
+ */
+export function moveDropTarget(rows: KeyboardCell[][], cellKey: string, move: FocusMove): string {
+    const found = findCell(rows, cellKey);
+    if (!found) return cellKey;
+
+    const offsets: Partial<Record<FocusMove, [number, number]>> = {
+        up: [-1, 0],
+        down: [1, 0],
+        left: [0, -1],
+        right: [0, 1]
+    };
+    const [rowOffset, columnOffset] = offsets[move] ?? [0, 0];
+    return rows[found.row + rowOffset]?.[found.column + columnOffset]?.key ?? cellKey;
+}
+
+/**
+ * Find the cell holding a card
+ */
+export function findTaskFocus(rows: KeyboardCell[][], taskId: string): BoardFocus | null {
+    for (const row of rows) {
+        const cell = row.find(c => c.taskIds.includes(taskId));
+        if (cell) return { cell: cell.key, taskId };
+    }
+    return null;
+}
+
+/**
+ * Find a cell and its position in the grid
+ */
+export function findCell(rows: KeyboardCell[][], key: string): { cell: KeyboardCell; row: number; column: number } | null {
+    for (let row = 0; row < rows.length; row++) {
+        const column = rows[row]?.findIndex(cell => cell.key === key) ?? -1;
+        const cell = rows[row]?.[column];
+        if (cell) return { cell, row, column };
+    }
+    return null;
+}
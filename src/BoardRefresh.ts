@@ -0,0 +1,53 @@
+/**
+ * BoardRefresh - When an open board re-renders
+ *
+ * Boards follow Datacore's index through their live query instead of
+ * re-rendering on a timer, and keep their cards when an update left the
+ * board's tasks unchanged. Polling remains available as an opt-in setting.
+ */
+
+/** Shortest polling interval accepted by the `refreshInterval` setting */
+export const MIN_REFRESH_INTERVAL = 1000;
+
+/** Event reference returned by Datacore's `core.on` */
+export type IndexEventRef = unknown;
+
+/** The part of Datacore's core that reports index updates */
+export interface IndexEvents {
+    /** Current index revision */
+    readonly revision: number;
+    on(event: 'update', callback: (revision: number) => unknown): IndexEventRef;
+    offref(ref: IndexEventRef): void;
+    /** Re-index a file, resolving to its entry once the index holds it */
+    reload(file: object): Promise<{ $revision?: number | undefined }>;
+}
+
+/**
+ * Whether a query returned the same tasks as before. Datacore keeps the
+ * objects of notes it didn't re-index, so an update elsewhere in the vault
+ * leaves every task the same object.
+ */
+export function isSameTaskList<T>(previous: readonly T[] | null | undefined, next: readonly T[] | null | undefined): boolean {
+    if (previous === next) return true;
+    if (!previous || !next || previous.length !== next.length) return false;
+    return previous.every((task, index) => task === next[index]);
+}
+
+/**
+ * Read the polling interval setting: 0 (off) unless a positive number of
+ * milliseconds is given, which is raised to MIN_REFRESH_INTERVAL if shorter
+ */
+export function resolveRefreshInterval(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return 0;
+    return Math.max(value, MIN_REFRESH_INTERVAL);
+}
+
+/**
+ * Get the index events of the Datacore plugin, or null while it isn't loaded
+ */
+export function getIndexEvents(app: object): IndexEvents | null {
+    const plugins = (app as { plugins?: { plugins?: Record<string, { api?: { core?: Partial<IndexEvents> } }> } }).plugins;
+    const core = plugins?.plugins?.['datacore']?.api?.core;
+    const complete = typeof core?.on === 'function' && typeof core.offref === 'function' && typeof core.reload === 'function';
+    return complete ? core as IndexEvents : null;
+}
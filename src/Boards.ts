@@ -0,0 +1,151 @@
+/**
+ * Boards - Named board definitions
+ *
+ * Each board has its own query, columns, swimlanes and card options. Settings
+ * saved before boards existed are read as a single "Task Board" built from the
+ * global `datacoreQuery` and `columns`.
+ */
+
+import type { ColumnOrderSettings } from './CardOrdering';
+import type { ColumnGroupBy } from './ColumnSections';
+import type { MobileLayout } from './PointerDrag';
+import type { SwimlaneSettings } from './Swimlanes';
+import type { QuickAddSettings } from './QuickAdd';
+import type { GroupingColumn, UnsortedPolicy } from './TaskGrouping';
+import type { ColumnWipSettings } from './WipLimits';
+
+/** Column shape shared by every board */
+export interface BoardColumn extends GroupingColumn, ColumnWipSettings, ColumnOrderSettings {
+    groupBy?: ColumnGroupBy;
+}
+
+export interface BoardDefinition {
+    id: string;
+    name: string;
+    datacoreQuery: string;
+    columns: BoardColumn[];
+    swimlanes?: SwimlaneSettings;
+    unsortedPolicy?: UnsortedPolicy;
+    cardMaxHeight?: number;
+    showDueDate?: boolean;
+    showPriority?: boolean;
+    showTags?: boolean;
+    quickAdd?: QuickAddSettings;
+    mobileLayout?: MobileLayout;
+}
+
+/** The parts of KanbanSettings boards are resolved from */
+export interface BoardSettings {
+    boards?: BoardDefinition[];
+    /** Board opened when no board id is given */
+    defaultBoardId?: string;
+    datacoreQuery: string;
+    columns: BoardColumn[];
+    swimlanes?: SwimlaneSettings;
+    unsortedPolicy?: UnsortedPolicy;
+    cardMaxHeight?: number;
+    showDueDate?: boolean;
+    showPriority?: boolean;
+    showTags?: boolean;
+    quickAdd?: QuickAddSettings;
+    mobileLayout?: MobileLayout;
+}
+
+/** Id of the board migrated from pre-board settings */
+export const DEFAULT_BOARD_ID = 'default';
+
+/** Board options copied onto the settings a board is rendered with */
+const BOARD_OPTIONS = ['swimlanes', 'unsortedPolicy', 'cardMaxHeight', 'showDueDate', 'showPriority', 'showTags', 'quickAdd', 'mobileLayout'] as const;
+
+/**
+ * Get the configured boards, falling back to one board built from the global settings
+ */
+export function getBoards(settings: BoardSettings): BoardDefinition[] {
+    if (settings.boards && settings.boards.length > 0) return settings.boards;
+    return [createLegacyBoard(settings)];
+}
+
+/**
+ * Find a board by id, falling back to the default board and then the first one
+ */
+export function findBoard(settings: BoardSettings, boardId?: string | null): BoardDefinition {
+    const boards = getBoards(settings);
+    return boards.find(board => board.id === boardId)
+        ?? boards.find(board => board.id === settings.defaultBoardId)
+        ?? boards[0]
+        ?? createLegacyBoard(settings);
+}
+
+/**
+ * Move pre-board settings into a `boards` list; returns the settings unchanged
+ * when boards are already defined
+ */
+export function migrateBoards<S extends BoardSettings>(settings: S): S {
+    if (settings.boards && settings.boards.length > 0) return settings;
+    return { ...settings, boards: [createLegacyBoard(settings)], defaultBoardId: DEFAULT_BOARD_ID };
+}
+
+/**
+ * Overlay a board onto the global settings so renderers can keep reading a
+ * single settings object
+ */
+export function applyBoard<S extends BoardSettings>(settings: S, board: BoardDefinition): S {
+    const resolved: S = {
+        ...settings,
+        datacoreQuery: board.datacoreQuery,
+        columns: board.columns
+    };
+    for (const option of BOARD_OPTIONS) {
+        if (board[option] !== undefined) {
+            (resolved as BoardSettings)[option] = board[option] as never;
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Create a unique, readable board id from a name
+ */
+export function createBoardId(name: string, existing: BoardDefinition[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'board';
+    const taken = new Set(existing.map(board => board.id));
+
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) {
+        id = `${base}-${suffix}`;
+    }
+    return id;
+}
+
+/**
+ * Register an "Open board" command per board; re-registering replaces
+ * commands with the same id
+ */
+export function registerBoardCommands(
+    plugin: { addCommand(command: { id: string; name: string; callback: () => unknown }): unknown },
+    boards: BoardDefinition[],
+    openBoard: (boardId: string) => unknown
+): void {
+    for (const board of boards) {
+        plugin.addCommand({
+            id: `open-board-${board.id}`,
+            name: `Open board: ${board.name}`,
+            callback: () => openBoard(board.id)
+        });
+    }
+}
+
+function createLegacyBoard(settings: BoardSettings): BoardDefinition {
+    const board: BoardDefinition = {
+        id: DEFAULT_BOARD_ID,
+        name: 'Task Board',
+        datacoreQuery: settings.datacoreQuery,
+        columns: settings.columns
+    };
+    for (const option of BOARD_OPTIONS) {
+        if (settings[option] !== undefined) {
+            (board as BoardSettings)[option] = settings[option] as never;
+        }
+    }
+    return board;
+}
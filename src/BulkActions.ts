@@ -0,0 +1,136 @@
+/**
+ * BulkActions - Actions applied to a selection of cards at once
+ *
+ * Each action becomes a single line edit that is applied to every selected
+ * task; the view groups the tasks by file so every file is written once.
+ */
+
+import type { BoardOperationKind } from './BoardHistory';
+import { applyRule, RuleColumn, RuleContext } from './ColumnRules';
+import { getTaskPath, TaskLike } from './TaskFields';
+import { replaceStatusTag, TaskPriorityName } from './TaskLine';
+import { addTag, completeTask, removeTag, setDueDate, setPriority, setStatusTag } from './TaskLineEdits';
+
+export type BulkAction =
+    | { type: 'move'; columnId: string; laneKey?: string | undefined }
+    | { type: 'add-tag'; tag: string }
+    | { type: 'remove-tag'; tag: string }
+    | { type: 'due'; date: string | null }
+    | { type: 'priority'; priority: TaskPriorityName | null }
+    | { type: 'complete' }
+    | { type: 'archive' };
+
+export interface BulkEditContext {
+    columns: (RuleColumn & { name: string })[];
+    ruleContext: RuleContext;
+    /** Rewrites the swimlane key of a line, when swimlanes can be written */
+    rewriteLane?: ((line: string, laneKey: string) => string) | undefined;
+}
+
+/** Tag given to archived tasks, which the board hides */
+export const ARCHIVE_TAG = '#archived';
+
+/**
+ * Build the line edit of an action
+ */
+export function createBulkLineEdit(action: BulkAction, context: BulkEditContext): (line: string) => string {
+    switch (action.type) {
+        case 'move': {
+            const column = context.columns.find(c => c.id === action.columnId);
+            if (!column) throw new Error(`Unknown column "${action.columnId}"`);
+            const { laneKey } = action;
+            const rewriteLane = context.rewriteLane;
+
+            return line => {
+                const moved = column.rule
+                    ? applyRule(line, column.rule, context.ruleContext) ?? line
+                    : setStatusTag(line, context.ruleContext.statusTags, column.tag, context.ruleContext.today);
+                return laneKey !== undefined && rewriteLane ? rewriteLane(moved, laneKey) : moved;
+            };
+        }
+        case 'add-tag': {
+            const tag = normalizeTag(action.tag);
+            return line => addTag(line, tag);
+        }
+        case 'remove-tag': {
+            const tag = normalizeTag(action.tag);
+            return line => removeTag(line, tag);
+        }
+        case 'due':
+            return line => setDueDate(line, action.date);
+        case 'priority':
+            return line => setPriority(line, action.priority);
+        case 'complete':
+            return line => completeTask(line, context.ruleContext.today);
+        case 'archive':
+            return line => replaceStatusTag(line, context.ruleContext.statusTags, ARCHIVE_TAG);
+    }
+}
+
+/**
+ * The history kind an action is recorded as
+ */
+export function getBulkOperationKind(action: BulkAction): BoardOperationKind {
+    switch (action.type) {
+        case 'move':
+            return 'status';
+        case 'complete':
+            return 'completion';
+        case 'add-tag':
+        case 'remove-tag':
+        case 'archive':
+            return 'tag';
+        default:
+            return 'edit';
+    }
+}
+
+/**
+ * Describe an action applied to a number of tasks, e.g. "Moved 3 tasks to Done"
+ */
+export function describeBulkAction(action: BulkAction, count: number, columns: { id: string; name: string }[] = []): string {
+    const tasks = count === 1 ? '1 task' : `${count} tasks`;
+    switch (action.type) {
+        case 'move':
+            return `Moved ${tasks} to ${columns.find(c => c.id === action.columnId)?.name ?? action.columnId}`;
+        case 'add-tag':
+            return `Added ${normalizeTag(action.tag)} to ${tasks}`;
+        case 'remove-tag':
+            return `Removed ${normalizeTag(action.tag)} from ${tasks}`;
+        case 'due':
+            return action.date ? `Set due date ${action.date} on ${tasks}` : `Cleared the due date of ${tasks}`;
+        case 'priority':
+            return action.priority ? `Set priority ${action.priority} on ${tasks}` : `Cleared the priority of ${tasks}`;
+        case 'complete':
+            return `Completed ${tasks}`;
+        case 'archive':
+            return `Archived ${tasks}`;
+    }
+}
+
+/**
+ * Whether a task was archived
+ */
+export function isArchivedTask(task: TaskLike): boolean {
+    return (task.tags ?? []).some(tag => tag.toLowerCase() === ARCHIVE_TAG);
+}
+
+/**
+ * Group tasks by the file they live in, keeping their order
+ */
+export function groupTasksByPath<T extends TaskLike>(tasks: T[]): Map<string, T[]> {
+    const byPath = new Map<string, T[]>();
+    for (const task of tasks) {
+        const path = getTaskPath(task);
+        byPath.set(path, [...(byPath.get(path) ?? []), task]);
+    }
+    return byPath;
+}
+
+/**
+ * Add the leading '#' to a tag typed without it
+ */
+export function normalizeTag(tag: string): string {
+    const trimmed = tag.trim();
+    return trimmed.startsWith('#') ? trimmed : `#${trimmed}`;
+}
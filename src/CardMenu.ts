@@ -0,0 +1,81 @@
+/**
+ * CardMenu - Items of the card context menu added by other plugins
+ *
+ * The board builds its own actions (move, completion, priority, dates, links,
+ * archive, delete) and appends every registered item whose `isVisible`
+ * accepts the task. Items are registered through the plugin API:
+ *
+ *     const unregister = window.DatacoreKanbanPlugin.registerCardMenuItem({
+ *         id: 'my-plugin:send', title: 'Send to…', onClick: task => send(task)
+ *     });
+ */
+
+import type { TaskLike } from './TaskFields';
+
+export interface CardMenuItem<T extends TaskLike = TaskLike> {
+    /** Unique id; registering the same id again replaces the item */
+    id: string;
+    title: string | ((task: T) => string);
+    /** Lucide icon name */
+    icon?: string;
+    /** Menu section the item is grouped in, `plugins` by default */
+    section?: string;
+    isVisible?(task: T): boolean;
+    onClick(task: T): unknown;
+}
+
+export class CardMenuRegistry {
+    private items = new Map<string, CardMenuItem>();
+
+    /**
+     * Add an item to every card menu; returns a function removing it again
+     */
+    register(item: CardMenuItem): () => void {
+        if (!item.id || typeof item.onClick !== 'function') {
+            throw new Error('Card menu items need an id and an onClick handler');
+        }
+        this.items.set(item.id, item);
+        return () => {
+            if (this.items.get(item.id) === item) this.items.delete(item.id);
+        };
+    }
+
+    unregister(id: string): void {
+        this.items.delete(id);
+    }
+
+    /**
+     * Registered items shown for a task, in registration order; an item whose
+     * `isVisible` throws is left out
+     */
+    getItems<T extends TaskLike>(task: T): CardMenuItem<T>[] {
+        return [...this.items.values()].filter(item => {
+            try {
+                return item.isVisible?.(task) ?? true;
+            } catch (error) {
+                console.error(`Card menu item "${item.id}" failed:`, error);
+                return false;
+            }
+        }) as CardMenuItem<T>[];
+    }
+}
+
+/** Items shared by every board */
+export const cardMenuItems = new CardMenuRegistry();
+
+/**
+ * Read a postpone amount: a number of days, or `3d` / `2w`
+ */
+export function parsePostponeAmount(input: string): number | null {
+    const match = /^\+?(\d+)\s*([dw]?)$/i.exec(input.trim());
+    if (!match) return null;
+    const days = Number(match[1]) * (match[2]?.toLowerCase() === 'w' ? 7 : 1);
+    return days > 0 ? days : null;
+}
+
+/**
+ * Title of a menu item for a task
+ */
+export function getCardMenuTitle<T extends TaskLike>(item: CardMenuItem<T>, task: T): string {
+    return typeof item.title === 'function' ? item.title(task) : item.title;
+}
@@ -0,0 +1,299 @@
+/**
+ * CardOrdering - Card order within a column
+ *
+ * Columns are either sorted by a list of task properties or manually ordered.
+ * Manual positions are persisted as an `[order:: n]` field on the task line, or
+ * by physically moving the line when the neighbouring card lives in the same file.
+ */
+
+import {
+    getTaskCreatedDate,
+    getTaskDueDate,
+    getTaskNumberField,
+    getTaskPath,
+    getTaskScheduledDate,
+    TaskLike
+} from './TaskFields';
+
+export type CardSortMode = 'manual' | 'due' | 'scheduled' | 'priority' | 'urgency' | 'created' | 'path' | 'text';
+
+/** A sort key, descending when prefixed with `-` (e.g. `-due`) */
+export type SortSpec = CardSortMode | `-${CardSortMode}`;
+
+export type OrderStrategy = 'field' | 'lines';
+
+export interface ColumnOrderSettings {
+    /** Single sort key; superseded by `sortBy` when both are set */
+    sortMode?: CardSortMode;
+    /** Sort keys applied in turn, later keys breaking ties of earlier ones */
+    sortBy?: SortSpec[];
+    /** How manual positions are persisted (defaults to 'field') */
+    orderStrategy?: OrderStrategy;
+}
+
+export interface SortOptions {
+    /** Urgency score provider, e.g. TasksPluginIntegration.getUrgencyScore */
+    getUrgencyScore?: (task: TaskLike) => number;
+}
+
+export interface OrderUpdate<T extends TaskLike> {
+    task: T;
+    order: number;
+}
+
+export interface LineMove {
+    path: string;
+    fromLine: number;
+    /** Line the moved task is inserted before (may equal the line count) */
+    beforeLine: number;
+}
+
+/** Inline field holding a card's manual position */
+export const ORDER_FIELD = 'order';
+
+const PRIORITY_RANK: Record<string, number> = {
+    highest: 0,
+    high: 1,
+    medium: 2,
+    normal: 3,
+    low: 4,
+    lowest: 5
+};
+
+/**
+ * Get the sort keys of a column, defaulting to manual order
+ */
+export function resolveSortKeys(column: ColumnOrderSettings): SortSpec[] {
+    if (column.sortBy && column.sortBy.length > 0) return column.sortBy;
+    return [column.sortMode ?? 'manual'];
+}
+
+/**
+ * Whether cards of a column can be rearranged by dragging
+ */
+export function isManuallyOrdered(column: ColumnOrderSettings): boolean {
+    return resolveSortKeys(column)[0] === 'manual';
+}
+
+/**
+ * Describe a column's sort keys for display, e.g. "due, -priority"
+ */
+export function formatSortKeys(column: ColumnOrderSettings): string {
+    return resolveSortKeys(column).join(', ');
+}
+
+/**
+ * Sort the tasks of a column by one or more keys; the input array is left untouched
+ */
+export function sortColumnTasks<T extends TaskLike>(tasks: T[], sort: SortSpec | SortSpec[] = 'manual', options: SortOptions = {}): T[] {
+    const comparators = (Array.isArray(sort) ? sort : [sort]).map(spec => getComparator(spec, options));
+    const compare = (a: T, b: T): number => {
+        for (const comparator of comparators) {
+            const result = comparator(a, b);
+            if (result !== 0) return result;
+        }
+        return 0;
+    };
+    return tasks
+        .map((task, index) => ({ task, index }))
+        .sort((a, b) => compare(a.task, b.task) || a.index - b.index)
+        .map(entry => entry.task);
+}
+
+/**
+ * Index among a column's cards where a dropped task lands: at the pointer when
+ * it is rearranged within a manually ordered column, else where the column's
+ * sort places it. Null when a sorted column refuses the rearrangement.
+ */
+export function getDropPosition<T extends TaskLike>(
+    task: T,
+    columnTasks: T[],
+    column: ColumnOrderSettings,
+    pointerIndex: number,
+    options: SortOptions = {}
+): number | null {
+    const inColumn = columnTasks.some(t => t.id === task.id);
+    if (inColumn) return isManuallyOrdered(column) ? pointerIndex : null;
+
+    const sorted = sortColumnTasks([...columnTasks, task], resolveSortKeys(column), options);
+    return sorted.findIndex(t => t.id === task.id);
+}
+
+/**
+ * Compute the `order` values to write when moving a task, or a block of
+ * tasks kept in their column order, to `targetIndex` among the other tasks of
+ * a manually ordered column. Spreads the block between the neighbours when
+ * possible and renumbers the column otherwise.
+ */
+export function planManualReorder<T extends TaskLike>(orderedTasks: T[], taskIds: string | readonly string[], targetIndex: number): OrderUpdate<T>[] {
+    const ids = new Set<string | undefined>(typeof taskIds === 'string' ? [taskIds] : taskIds);
+    const moving = orderedTasks.filter(t => ids.has(t.id));
+    if (moving.length === 0) return [];
+
+    const others = orderedTasks.filter(t => !ids.has(t.id));
+    const index = Math.max(0, Math.min(targetIndex, others.length));
+    const prev = others[index - 1];
+    const next = others[index];
+    const prevOrder = prev ? getTaskNumberField(prev, ORDER_FIELD) : null;
+    const nextOrder = next ? getTaskNumberField(next, ORDER_FIELD) : null;
+
+    const neighboursOrdered = (!prev || prevOrder !== null) && (!next || nextOrder !== null);
+    if (neighboursOrdered && hasDistinctOrders(others)) {
+        let orders: number[] | null = null;
+        if (prevOrder !== null && nextOrder !== null) {
+            const step = (nextOrder - prevOrder) / (moving.length + 1);
+            orders = step > 0.001 ? moving.map((_, i) => roundOrder(prevOrder + step * (i + 1))) : null;
+        } else if (prevOrder !== null) {
+            orders = moving.map((_, i) => prevOrder + i + 1);
+        } else if (nextOrder !== null) {
+            orders = moving.map((_, i) => nextOrder - moving.length + i);
+        } else {
+            orders = moving.map((_, i) => i + 1);
+        }
+
+        if (orders !== null) {
+            return moving.map((task, i) => ({ task, order: orders[i] ?? i + 1 }));
+        }
+    }
+
+    // Renumber the whole column, writing only the tasks whose order changes
+    const reordered = [...others.slice(0, index), ...moving, ...others.slice(index)];
+    return reordered
+        .map((t, i) => ({ task: t, order: i + 1 }))
+        .filter(update => getTaskNumberField(update.task, ORDER_FIELD) !== update.order);
+}
+
+/**
+ * Plan a physical line move placing a task next to its new neighbour, or
+ * null if the neighbour lives in another file. Given the file's lines, a task
+ * placed after its neighbour goes below the neighbour's sub-items too.
+ */
+export function planLineReorder<T extends TaskLike>(
+    orderedTasks: T[],
+    taskId: string,
+    targetIndex: number,
+    lines?: readonly string[]
+): LineMove | null {
+    const task = orderedTasks.find(t => t.id === taskId);
+    if (!task || task.line === undefined) return null;
+
+    const others = orderedTasks.filter(t => t.id !== taskId);
+    const index = Math.max(0, Math.min(targetIndex, others.length));
+    const path = getTaskPath(task);
+    const prev = others[index - 1];
+    const next = others[index];
+
+    if (next && next.line !== undefined && getTaskPath(next) === path) {
+        return { path, fromLine: task.line, beforeLine: next.line };
+    }
+    if (prev && prev.line !== undefined && getTaskPath(prev) === path) {
+        return { path, fromLine: task.line, beforeLine: lines ? getTaskBlockEnd(lines, prev.line) : prev.line + 1 };
+    }
+    return null;
+}
+
+/**
+ * Move a task line, together with its indented sub-items, so it lands before
+ * `beforeLine` (indices refer to the original content)
+ */
+export function moveTaskLine(content: string, fromLine: number, beforeLine: number): string {
+    const lines = content.split('\n');
+    if (lines[fromLine] === undefined) return content;
+    const end = getTaskBlockEnd(lines, fromLine);
+
+    // Moving into its own block is a no-op
+    if (beforeLine >= fromLine && beforeLine <= end) return content;
+
+    const block = lines.slice(fromLine, end);
+    const rest = [...lines.slice(0, fromLine), ...lines.slice(end)];
+    const insertAt = beforeLine > fromLine ? beforeLine - block.length : beforeLine;
+    rest.splice(insertAt, 0, ...block);
+    return rest.join('\n');
+}
+
+/**
+ * Index just past a task line's indented sub-items
+ */
+export function getTaskBlockEnd(lines: readonly string[], fromLine: number): number {
+    const indent = indentOf(lines[fromLine] ?? '');
+    let end = fromLine + 1;
+    while (end < lines.length) {
+        const line = lines[end] ?? '';
+        if (line.trim() === '' || indentOf(line) <= indent) break;
+        end++;
+    }
+    return end;
+}
+
+function getComparator(spec: SortSpec, options: SortOptions): (a: TaskLike, b: TaskLike) => number {
+    const descending = spec.startsWith('-');
+    const mode = (descending ? spec.slice(1) : spec) as CardSortMode;
+    const byValue = <V extends string | number>(value: (task: TaskLike) => V | null) =>
+        (a: TaskLike, b: TaskLike) => compareNullable(value(a), value(b), descending);
+
+    switch (mode) {
+        case 'manual':
+            return byValue(task => getTaskNumberField(task, ORDER_FIELD));
+        case 'due':
+            return byValue(getTaskDueDate);
+        case 'scheduled':
+            return byValue(getTaskScheduledDate);
+        case 'priority':
+            return byValue(getPriorityRank);
+        case 'urgency': {
+            // Most urgent first; `-urgency` puts the least urgent first
+            const score = options.getUrgencyScore ?? estimateUrgency;
+            return (a, b) => descending ? score(a) - score(b) : score(b) - score(a);
+        }
+        case 'created':
+            return byValue(getTaskCreatedDate);
+        case 'path':
+            return byValue(task => getTaskPath(task).toLowerCase() || null);
+        case 'text':
+            return byValue(task => task.text?.toLowerCase() || null);
+        default:
+            return () => 0;
+    }
+}
+
+/**
+ * Compare two optional values, with missing values last in either direction
+ */
+function compareNullable<V extends string | number>(a: V | null, b: V | null, descending = false): number {
+    if (a === null && b === null) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    const result = a < b ? -1 : a > b ? 1 : 0;
+    return descending ? -result : result;
+}
+
+/**
+ * Rank of a task's priority, 0 for highest
+ */
+export function getPriorityRank(task: TaskLike): number {
+    return PRIORITY_RANK[(task.priority ?? 'normal').toLowerCase()] ?? PRIORITY_RANK.normal ?? 3;
+}
+
+/**
+ * Fallback urgency when the Tasks plugin isn't available: priority plus due proximity
+ */
+function estimateUrgency(task: TaskLike): number {
+    const priorityScore = 5 - getPriorityRank(task);
+    const due = getTaskDueDate(task);
+    if (!due) return priorityScore;
+    const days = (Date.parse(due) - Date.now()) / 86_400_000;
+    return priorityScore + Math.max(0, 14 - days);
+}
+
+function hasDistinctOrders(tasks: TaskLike[]): boolean {
+    const orders = tasks.map(t => getTaskNumberField(t, ORDER_FIELD));
+    return orders.every(order => order !== null) && new Set(orders).size === orders.length;
+}
+
+function roundOrder(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+}
@@ -0,0 +1,192 @@
+/**
+ * ColumnRules - Rule-based column membership and write-back
+ *
+ * A column is defined either by its status `tag` or by a `rule`. Every rule
+ * type has a matching write-back so that dropping a card into the column can
+ * update the source line until the task matches the rule.
+ */
+
+import { endOfWeek, startOfWeek, toISODate } from './DateUtils';
+import { getTaskDueDate, getTaskField, getTaskStatusSymbol, TaskLike } from './TaskFields';
+import { addTag, removeTag, setDueDate, setInlineField, setStatusSymbol, setStatusTag } from './TaskLineEdits';
+
+export type DuePredicate = 'overdue' | 'today' | 'this-week' | 'none';
+
+export type ColumnRule =
+    | { type: 'tag'; tag: string }
+    | { type: 'status'; symbol: string }
+    | { type: 'field'; field: string; value: string }
+    | { type: 'due'; when: DuePredicate }
+    | { type: 'and'; rules: ColumnRule[] }
+    | { type: 'or'; rules: ColumnRule[] }
+    | { type: 'not'; rule: ColumnRule };
+
+export interface RuleColumn {
+    id: string;
+    tag: string;
+    rule?: ColumnRule;
+}
+
+export interface RuleContext {
+    /** Today's date as YYYY-MM-DD */
+    today: string;
+    /** Status tags of every column, removed when a tag rule is written back */
+    statusTags: string[];
+}
+
+/**
+ * Get the effective rule of a column (its tag when no rule is configured)
+ */
+export function getColumnRule(column: RuleColumn): ColumnRule {
+    return column.rule ?? { type: 'tag', tag: column.tag };
+}
+
+/**
+ * Build the rule context for a set of columns
+ */
+export function createRuleContext(columns: RuleColumn[], now: Date = new Date()): RuleContext {
+    const statusTags = new Set<string>();
+    for (const column of columns) {
+        collectTags(getColumnRule(column), statusTags);
+    }
+    return { today: toISODate(now), statusTags: Array.from(statusTags) };
+}
+
+/**
+ * Whether a task matches a rule
+ */
+export function matchesRule(task: TaskLike, rule: ColumnRule, context: RuleContext): boolean {
+    switch (rule.type) {
+        case 'tag': {
+            const tag = rule.tag.toLowerCase();
+            return (task.tags ?? []).some(t => t.toLowerCase() === tag);
+        }
+        case 'status':
+            return getTaskStatusSymbol(task) === rule.symbol;
+        case 'field': {
+            const value = getTaskField(task, rule.field);
+            return value !== undefined && value !== null
+                && String(value).toLowerCase() === rule.value.toLowerCase();
+        }
+        case 'due':
+            return matchesDue(getTaskDueDate(task), rule.when, task.completed ?? false, context.today);
+        case 'and':
+            return rule.rules.every(child => matchesRule(task, child, context));
+        case 'or':
+            return rule.rules.some(child => matchesRule(task, child, context));
+        case 'not':
+            return !matchesRule(task, rule.rule, context);
+    }
+}
+
+/**
+ * Find the first column whose rule matches a task
+ */
+export function findMatchingColumn<C extends RuleColumn>(task: TaskLike, columns: C[], context: RuleContext): C | null {
+    return columns.find(column => matchesRule(task, getColumnRule(column), context)) ?? null;
+}
+
+/**
+ * Whether a rule has a write-back action, i.e. cards can be dropped into its column
+ */
+export function canWriteRule(rule: ColumnRule): boolean {
+    return applyRule('- [ ] probe', rule, { today: '2000-01-01', statusTags: [] }) !== null;
+}
+
+/**
+ * Rewrite a task line so the task matches a rule, or return null if the
+ * rule can't be written back (e.g. "overdue")
+ */
+export function applyRule(line: string, rule: ColumnRule, context: RuleContext): string | null {
+    switch (rule.type) {
+        case 'tag': {
+            let updated = line;
+            for (const tag of context.statusTags) {
+                if (tag.toLowerCase() !== rule.tag.toLowerCase()) {
+                    updated = removeTag(updated, tag);
+                }
+            }
+            return addTag(updated, rule.tag);
+        }
+        case 'status':
+            return setStatusSymbol(line, rule.symbol);
+        case 'field':
+            return setInlineField(line, rule.field, rule.value);
+        case 'due':
+            switch (rule.when) {
+                case 'today':
+                case 'this-week':
+                    return setDueDate(line, context.today);
+                case 'none':
+                    return setDueDate(line, null);
+                default:
+                    return null;
+            }
+        case 'and': {
+            let updated: string | null = line;
+            for (const child of rule.rules) {
+                updated = applyRule(updated, child, context);
+                if (updated === null) return null;
+            }
+            return updated;
+        }
+        case 'or': {
+            for (const child of rule.rules) {
+                const updated = applyRule(line, child, context);
+                if (updated !== null) return updated;
+            }
+            return null;
+        }
+        case 'not':
+            return applyNegation(line, rule.rule);
+    }
+}
+
+/**
+ * Rewrite a task line for a move into a column: rule columns write their rule
+ * back (leaving the line as is when it can't be written), status-tag columns
+ * swap the status tag and check the task off or reopen it around #done
+ */
+export function moveLineToColumn(line: string, column: RuleColumn, columns: RuleColumn[], context: RuleContext = createRuleContext(columns)): string {
+    if (column.rule) return applyRule(line, column.rule, context) ?? line;
+    return setStatusTag(line, columns.map(c => c.tag), column.tag, context.today);
+}
+
+function applyNegation(line: string, rule: ColumnRule): string | null {
+    switch (rule.type) {
+        case 'tag':
+            return removeTag(line, rule.tag);
+        case 'field':
+            return setInlineField(line, rule.field, null);
+        default:
+            return null;
+    }
+}
+
+function matchesDue(due: string | null, when: DuePredicate, completed: boolean, today: string): boolean {
+    switch (when) {
+        case 'none':
+            return due === null;
+        case 'overdue':
+            return due !== null && !completed && due < today;
+        case 'today':
+            return due === today;
+        case 'this-week':
+            return due !== null && due >= startOfWeek(today) && due <= endOfWeek(today);
+    }
+}
+
+function collectTags(rule: ColumnRule, tags: Set<string>): void {
+    switch (rule.type) {
+        case 'tag':
+            tags.add(rule.tag);
+            break;
+        case 'and':
+        case 'or':
+            rule.rules.forEach(child => collectTags(child, tags));
+            break;
+        case 'not':
+            collectTags(rule.rule, tags);
+            break;
+    }
+}
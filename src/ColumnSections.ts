@@ -0,0 +1,94 @@
+/**
+ * ColumnSections - Sub-headers inside a column
+ *
+ * A column can split its (already sorted) cards into sections by source file,
+ * folder, due week or priority. Sections appear in the order of their first
+ * card, so they follow the column's sort; cards without a value come last.
+ */
+
+import { getPriorityRank } from './CardOrdering';
+import { startOfWeek } from './DateUtils';
+import { getTaskDueDate, getTaskFolder, getTaskPath, TaskLike } from './TaskFields';
+
+export type ColumnGroupBy = 'none' | 'file' | 'folder' | 'due-week' | 'priority';
+
+export interface ColumnSection<T extends TaskLike> {
+    key: string;
+    label: string;
+    tasks: T[];
+}
+
+/** Key of the section holding tasks without a value */
+export const UNGROUPED_SECTION = '';
+
+const PRIORITY_LABELS = ['Highest', 'High', 'Medium', 'Normal', 'Low', 'Lowest'];
+
+export function isColumnGroupingEnabled(groupBy: ColumnGroupBy | undefined): groupBy is Exclude<ColumnGroupBy, 'none'> {
+    return !!groupBy && groupBy !== 'none';
+}
+
+/**
+ * Get the section key of a task
+ */
+export function getSectionKey(task: TaskLike, groupBy: ColumnGroupBy): string {
+    switch (groupBy) {
+        case 'file':
+            return getTaskPath(task);
+        case 'folder':
+            return getTaskFolder(task) || '/';
+        case 'due-week': {
+            const due = getTaskDueDate(task);
+            return due ? startOfWeek(due) : UNGROUPED_SECTION;
+        }
+        case 'priority':
+            return String(getPriorityRank(task));
+        default:
+            return UNGROUPED_SECTION;
+    }
+}
+
+/**
+ * Get the display label of a section key
+ */
+export function getSectionLabel(key: string, groupBy: ColumnGroupBy): string {
+    switch (groupBy) {
+        case 'file':
+            return key ? (key.split('/').pop() ?? key).replace(/\.md$/, '') : 'No file';
+        case 'due-week':
+            return key ? `Week of ${key}` : 'No due date';
+        case 'priority':
+            return PRIORITY_LABELS[Number(key)] ?? 'Normal';
+        default:
+            return key || 'Other';
+    }
+}
+
+/**
+ * Split a column's tasks into sections, keeping the task order within each
+ */
+export function groupColumnTasks<T extends TaskLike>(tasks: T[], groupBy: ColumnGroupBy): ColumnSection<T>[] {
+    if (!isColumnGroupingEnabled(groupBy)) {
+        return [{ key: UNGROUPED_SECTION, label: '', tasks }];
+    }
+
+    const sections = new Map<string, T[]>();
+    for (const task of tasks) {
+        const key = getSectionKey(task, groupBy);
+        const section = sections.get(key);
+        if (section) {
+            section.push(task);
+        } else {
+            sections.set(key, [task]);
+        }
+    }
+
+    const ungrouped = sections.get(UNGROUPED_SECTION);
+    sections.delete(UNGROUPED_SECTION);
+    if (ungrouped) sections.set(UNGROUPED_SECTION, ungrouped);
+
+    return Array.from(sections, ([key, sectionTasks]) => ({
+        key,
+        label: getSectionLabel(key, groupBy),
+        tasks: sectionTasks
+    }));
+}
@@ -2,6 +2,8 @@
  * Datacore View API - Exposes plugin views for embedding in notes
  */
 
+import { CardMenuItem, cardMenuItems } from './CardMenu';
+
 export class DatacoreViewAPI {
     private plugin: any;
     
@@ -23,7 +25,11 @@ export class DatacoreViewAPI {
             getSettings: () => this.plugin.settings,
             
             // Direct view access
-            renderView: this.renderView.bind(this)
+            renderView: this.renderView.bind(this),
+            
+            // Card context menu items; register returns a function removing the item
+            registerCardMenuItem: (item: CardMenuItem) => cardMenuItems.register(item),
+            unregisterCardMenuItem: (id: string) => cardMenuItems.unregister(id)
         };
     }
 
@@ -0,0 +1,81 @@
+/**
+ * DateUtils - Helpers for the YYYY-MM-DD dates used by Tasks fields
+ *
+ * All dates are plain local calendar dates, so ISO strings compare correctly
+ * with `<` and `>`.
+ */
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Format a Date as a local YYYY-MM-DD string
+ */
+export function toISODate(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string into a local Date, or null if it isn't a real date
+ */
+export function parseISODate(value: string): Date | null {
+    const match = ISO_DATE.exec(value);
+    if (!match) return null;
+
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return null;
+    }
+    return date;
+}
+
+export function isValidISODate(value: string): boolean {
+    return parseISODate(value) !== null;
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD string
+ */
+export function addDays(value: string, days: number): string {
+    const date = parseISODate(value);
+    if (!date) throw new Error(`Invalid date: ${value}`);
+    date.setDate(date.getDate() + days);
+    return toISODate(date);
+}
+
+/**
+ * Get the Monday starting the ISO week that contains a YYYY-MM-DD date
+ */
+export function startOfWeek(value: string): string {
+    const date = parseISODate(value);
+    if (!date) throw new Error(`Invalid date: ${value}`);
+    const offset = (date.getDay() + 6) % 7;
+    return addDays(value, -offset);
+}
+
+/**
+ * Get the Sunday ending the ISO week that contains a YYYY-MM-DD date
+ */
+export function endOfWeek(value: string): string {
+    return addDays(startOfWeek(value), 6);
+}
+
+/**
+ * Normalize a date-like value (string, Date or Luxon DateTime) to YYYY-MM-DD
+ */
+export function normalizeDate(value: unknown): string | null {
+    if (typeof value === 'string') {
+        const date = value.slice(0, 10);
+        return isValidISODate(date) ? date : null;
+    }
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : toISODate(value);
+    }
+    if (value && typeof (value as { toISODate?: unknown }).toISODate === 'function') {
+        return normalizeDate((value as { toISODate: () => unknown }).toISODate());
+    }
+    return null;
+}
@@ -0,0 +1,113 @@
+/**
+ * EmbedOptions - Props of the embeddable KanbanDatacoreView
+ *
+ * Settings resolve from, in order: the props of the embed, the named profile
+ * (a board from the plugin settings), and the built-in defaults. The unsorted
+ * policy always follows the plugin so counts match the plugin view.
+ */
+
+import { applyBoard, BoardColumn, BoardDefinition, BoardSettings, getBoards } from './Boards';
+import type { QuickAddSettings } from './QuickAdd';
+import type { TaskScopeMode } from './TaskScope';
+import { DEFAULT_UNSORTED_POLICY, UnsortedPolicy } from './TaskGrouping';
+
+export interface KanbanEmbedProps {
+    query?: string;
+    columns?: BoardColumn[];
+    title?: string;
+    showDueDate?: boolean;
+    showPriority?: boolean;
+    showTags?: boolean;
+    cardMaxHeight?: number;
+    scope?: TaskScopeMode;
+    /** Id or name of a board in the plugin settings to inherit from */
+    profile?: string;
+    /** Where the column "+" buttons add tasks; the host note by default */
+    quickAdd?: QuickAddSettings;
+}
+
+export interface EmbedSettings {
+    query: string;
+    columns: BoardColumn[];
+    title: string;
+    showDueDate: boolean;
+    showPriority: boolean;
+    showTags: boolean;
+    cardMaxHeight: number;
+    scope: TaskScopeMode;
+    unsortedPolicy: UnsortedPolicy;
+    quickAdd: QuickAddSettings;
+}
+
+export const DEFAULT_EMBED_COLUMNS: BoardColumn[] = [
+    { id: 'todo', name: 'To Do', tag: '#todo', color: '#ff6b6b' },
+    { id: 'doing', name: 'In Progress', tag: '#doing', color: '#4ecdc4' },
+    { id: 'waiting', name: 'Waiting', tag: '#waiting', color: '#f9ca24' },
+    { id: 'done', name: 'Done', tag: '#done', color: '#45b7d1' }
+];
+
+const DEFAULT_EMBED_SETTINGS: EmbedSettings = {
+    query: '@task',
+    columns: DEFAULT_EMBED_COLUMNS,
+    title: 'Task Board',
+    showDueDate: true,
+    showPriority: true,
+    showTags: true,
+    cardMaxHeight: 200,
+    scope: 'vault',
+    unsortedPolicy: DEFAULT_UNSORTED_POLICY,
+    quickAdd: { destination: 'host-note' }
+};
+
+/**
+ * Resolve the settings of an embedded board
+ */
+export function resolveEmbedSettings(props: KanbanEmbedProps = {}, pluginSettings?: BoardSettings | null): EmbedSettings {
+    const base = resolveBaseSettings(props.profile, pluginSettings);
+
+    return {
+        query: props.query ?? base.query,
+        columns: props.columns && props.columns.length > 0 ? props.columns : base.columns,
+        title: props.title ?? base.title,
+        showDueDate: props.showDueDate ?? base.showDueDate,
+        showPriority: props.showPriority ?? base.showPriority,
+        showTags: props.showTags ?? base.showTags,
+        cardMaxHeight: props.cardMaxHeight ?? base.cardMaxHeight,
+        scope: props.scope ?? base.scope,
+        unsortedPolicy: base.unsortedPolicy,
+        quickAdd: { ...base.quickAdd, ...props.quickAdd }
+    };
+}
+
+// Settings inherited from the profile, or the defaults
+function resolveBaseSettings(profile: string | undefined, pluginSettings: BoardSettings | null | undefined): EmbedSettings {
+    if (!pluginSettings) return DEFAULT_EMBED_SETTINGS;
+
+    const unsortedPolicy = pluginSettings.unsortedPolicy ?? DEFAULT_EMBED_SETTINGS.unsortedPolicy;
+    const board = profile ? findProfile(pluginSettings, profile) : undefined;
+    if (!board) {
+        if (profile) {
+            console.warn(`Kanban profile "${profile}" not found, using the default board settings`);
+        }
+        return { ...DEFAULT_EMBED_SETTINGS, unsortedPolicy };
+    }
+
+    const settings = applyBoard(pluginSettings, board);
+    return {
+        query: settings.datacoreQuery || DEFAULT_EMBED_SETTINGS.query,
+        columns: settings.columns.length > 0 ? settings.columns : DEFAULT_EMBED_SETTINGS.columns,
+        title: board.name,
+        showDueDate: settings.showDueDate ?? DEFAULT_EMBED_SETTINGS.showDueDate,
+        showPriority: settings.showPriority ?? DEFAULT_EMBED_SETTINGS.showPriority,
+        showTags: settings.showTags ?? DEFAULT_EMBED_SETTINGS.showTags,
+        cardMaxHeight: settings.cardMaxHeight ?? DEFAULT_EMBED_SETTINGS.cardMaxHeight,
+        scope: DEFAULT_EMBED_SETTINGS.scope,
+        unsortedPolicy: settings.unsortedPolicy ?? unsortedPolicy,
+        quickAdd: settings.quickAdd ?? DEFAULT_EMBED_SETTINGS.quickAdd
+    };
+}
+
+function findProfile(settings: BoardSettings, profile: string): BoardDefinition | undefined {
+    const normalized = profile.toLowerCase();
+    return getBoards(settings).find(board => board.id === profile || board.name.toLowerCase() === normalized);
+}
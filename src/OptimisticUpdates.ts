@@ -0,0 +1,116 @@
+/**
+ * OptimisticUpdates - Cards shown where a pending write puts them
+ *
+ * A moved card jumps to its new column right away instead of waiting for the
+ * file write and Datacore's re-index. Each write keeps its placements until
+ * the index reaches the revision holding the write, at which point the query
+ * shows the same thing; a failed write drops them so the card goes back.
+ */
+
+import { TaskLike } from './TaskFields';
+
+/** Index revision holding a write, or null when Datacore didn't report one */
+export type WriteRevision = number | null;
+
+/** Where a pending write puts a card */
+export interface CardPlacement {
+    columnId: string;
+    /** Swimlane the card moves to, when it changes lanes */
+    laneKey?: string | undefined;
+    /** Position among the column's other cards; left out, the column's sort places it */
+    index?: number | undefined;
+}
+
+export interface PendingWrite {
+    id: number;
+    /** Placements by task id */
+    placements: Map<string, CardPlacement>;
+    /** Index revision holding the write, null until the write finishes */
+    revision: number | null;
+}
+
+/**
+ * Drop the writes the index has caught up with
+ */
+export function reconcileWrites(writes: PendingWrite[], indexRevision: number): PendingWrite[] {
+    return writes.filter(write => write.revision === null || write.revision > indexRevision);
+}
+
+/**
+ * Record the revision a finished write was indexed at, dropping it when the
+ * index already holds it
+ */
+export function acknowledgeWrite(writes: PendingWrite[], id: number, revision: number, indexRevision: number): PendingWrite[] {
+    const updated = writes.map(write => write.id === id ? { ...write, revision } : write);
+    return reconcileWrites(updated, indexRevision);
+}
+
+/**
+ * Placement of each card, later writes winning
+ */
+export function collectPlacements(writes: PendingWrite[]): Map<string, CardPlacement> {
+    const placements = new Map<string, CardPlacement>();
+    for (const write of writes) {
+        write.placements.forEach((placement, taskId) => placements.set(taskId, placement));
+    }
+    return placements;
+}
+
+/**
+ * Move cards into the lanes their pending writes put them in; lanes that
+ * don't exist yet are left alone until the index creates them
+ */
+export function placeLaneTasks<T extends TaskLike, L extends { key: string; tasks: T[] }>(
+    lanes: L[],
+    placements: ReadonlyMap<string, CardPlacement>
+): L[] {
+    const moves = new Map<string, string>();
+    placements.forEach((placement, taskId) => {
+        if (placement.laneKey !== undefined && lanes.some(lane => lane.key === placement.laneKey)) {
+            moves.set(taskId, placement.laneKey);
+        }
+    });
+    if (moves.size === 0) return lanes;
+
+    const laneOf = (task: T): string | undefined => task.id === undefined ? undefined : moves.get(task.id);
+    const moving = lanes.flatMap(lane => lane.tasks.filter(task => laneOf(task) !== undefined));
+    return lanes.map(lane => ({
+        ...lane,
+        tasks: [
+            ...lane.tasks.filter(task => laneOf(task) === undefined),
+            ...moving.filter(task => laneOf(task) === lane.key)
+        ]
+    }));
+}
+
+/**
+ * Move cards into the columns their pending writes put them in, at the given
+ * position or where the column's sort places them. Cards not on the board and
+ * columns not shown are left alone.
+ */
+export function placeColumnTasks<T extends TaskLike>(
+    tasksByColumn: Record<string, T[]>,
+    placements: ReadonlyMap<string, CardPlacement>,
+    sortColumn: (columnId: string, tasks: T[]) => T[]
+): Record<string, T[]> {
+    if (placements.size === 0) return tasksByColumn;
+
+    const result: Record<string, T[]> = { ...tasksByColumn };
+    placements.forEach((placement, taskId) => {
+        const target = result[placement.columnId];
+        const sourceId = Object.keys(result).find(columnId => result[columnId]?.some(task => task.id === taskId));
+        const source = sourceId === undefined ? undefined : result[sourceId];
+        const task = source?.find(t => t.id === taskId);
+        if (!target || sourceId === undefined || !source || !task) return;
+
+        result[sourceId] = source.filter(t => t.id !== taskId);
+        const others = result[placement.columnId] ?? [];
+        if (placement.index === undefined) {
+            result[placement.columnId] = sortColumn(placement.columnId, [...others, task]);
+        } else {
+            const index = Math.max(0, Math.min(placement.index, others.length));
+            result[placement.columnId] = [...others.slice(0, index), task, ...others.slice(index)];
+        }
+    });
+    return result;
+}
@@ -0,0 +1,78 @@
+/**
+ * PointerDrag - Touch gestures on the board
+ *
+ * HTML5 drag and drop doesn't fire for touch, so phones and tablets drag cards
+ * with pointer events instead: holding a card still for a moment arms the
+ * drag, moving then drags it, and holding longer opens the "Move to…" sheet.
+ * Moving before the hold is a normal scroll or swipe.
+ */
+
+/** How columns are laid out on phones */
+export type MobileLayout = 'columns' | 'single-column';
+
+/** Hold before a touch drag starts */
+export const DRAG_HOLD_MS = 250;
+/** Hold, without moving, that opens the "Move to…" sheet */
+export const LONG_PRESS_MS = 600;
+/** Movement below which a press counts as holding still */
+export const DRAG_THRESHOLD_PX = 8;
+/** Distance from a container edge where dragging auto-scrolls it */
+export const AUTO_SCROLL_EDGE_PX = 48;
+/** Auto-scroll speed at the very edge, in pixels per frame */
+export const AUTO_SCROLL_MAX_SPEED = 16;
+/** Dwell at the screen edge that flips to the next column in the one-column layout */
+export const EDGE_FLIP_MS = 600;
+/** Horizontal distance of a swipe between columns */
+export const SWIPE_MIN_PX = 50;
+
+export interface PointerPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Whether a pointer moved far enough from where it was pressed
+ */
+export function hasMoved(start: PointerPoint, point: PointerPoint, threshold: number = DRAG_THRESHOLD_PX): boolean {
+    return Math.hypot(point.x - start.x, point.y - start.y) > threshold;
+}
+
+/**
+ * Auto-scroll step for a pointer near the edges of a container along one axis:
+ * negative near the start, positive near the end, faster closer to the edge
+ */
+export function getAutoScrollDelta(
+    position: number,
+    start: number,
+    end: number,
+    edge: number = AUTO_SCROLL_EDGE_PX,
+    maxSpeed: number = AUTO_SCROLL_MAX_SPEED
+): number {
+    const size = Math.min(edge, (end - start) / 2);
+    if (size <= 0) return 0;
+    if (position < start + size) {
+        return -Math.ceil(maxSpeed * Math.min(1, (start + size - position) / size));
+    }
+    if (position > end - size) {
+        return Math.ceil(maxSpeed * Math.min(1, (position - (end - size)) / size));
+    }
+    return 0;
+}
+
+/**
+ * Column step of a swipe: 1 for a swipe to the left (the next column), -1 to
+ * the right, 0 when the gesture was short or mostly vertical
+ */
+export function getSwipeStep(start: PointerPoint, end: PointerPoint, minDistance: number = SWIPE_MIN_PX): -1 | 0 | 1 {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    if (Math.abs(dx) < minDistance || Math.abs(dx) < Math.abs(dy) * 2) return 0;
+    return dx < 0 ? 1 : -1;
+}
+
+/**
+ * Read a board's mobile layout, defaulting to all columns side by side
+ */
+export function resolveMobileLayout(value: unknown): MobileLayout {
+    return value === 'single-column' ? 'single-column' : 'columns';
+}
@@ -0,0 +1,209 @@
+/**
+ * QuickAdd - Tasks created from a column header
+ *
+ * The typed text becomes a Tasks line that already matches the column (its
+ * status tag, or its rule written back), with date shorthand such as
+ * `📅 tomorrow` expanded. The line is written to the board's destination
+ * note, under a heading when one is configured; missing notes are created.
+ */
+
+import { applyRule, getColumnRule, RuleColumn, RuleContext } from './ColumnRules';
+import { addDays, isValidISODate, parseISODate, toISODate } from './DateUtils';
+import { escapeRegExp } from './TaskFields';
+import { editTaskLineTokens, FIELD_EMOJI } from './TaskLine';
+import { getTaskWriter, ProcessVault } from './TaskWriter';
+
+/** Where quick-added tasks are written */
+export type QuickAddDestination = 'inbox' | 'daily-note' | 'host-note' | 'file';
+
+export interface QuickAddSettings {
+    destination?: QuickAddDestination;
+    /** Note used by the `inbox` destination */
+    inboxPath?: string;
+    /** Note used by the `file` destination */
+    filePath?: string;
+    /** Heading the task is added under, e.g. `## Tasks`; the end of the note when unset */
+    heading?: string;
+}
+
+export interface QuickAddTarget {
+    path: string;
+    heading: string | null;
+}
+
+export interface QuickAddTargetContext {
+    /** Note hosting an embedded board, or the note a board is defined in */
+    hostPath?: string | null | undefined;
+    /** Path of today's daily note */
+    getDailyNotePath: () => string;
+}
+
+// The part of Obsidian's (untyped) internal plugin API read for the daily note location
+interface DailyNotesApp {
+    internalPlugins?: {
+        getPluginById?(id: string): { instance?: { options?: { folder?: string; format?: string } } } | null | undefined;
+    };
+}
+
+/** The part of Obsidian's Vault used to add tasks */
+export interface QuickAddVault<F extends { path: string }> extends ProcessVault<F> {
+    getAbstractFileByPath(path: string): unknown;
+    create(path: string, data: string): Promise<unknown>;
+    createFolder(path: string): Promise<unknown>;
+}
+
+export const DEFAULT_INBOX_PATH = 'Inbox.md';
+
+const DATE_EMOJI = [FIELD_EMOJI.due, FIELD_EMOJI.scheduled, FIELD_EMOJI.start, '📆', '🗓', '⌛'];
+const DATE_SHORTHAND = new RegExp(`(${DATE_EMOJI.map(escapeRegExp).join('|')})\\uFE0F?\\s*([^\\s#]+)`, 'gu');
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Resolve the note and heading a board adds tasks to. The host note falls
+ * back to the inbox for boards that have none.
+ */
+export function resolveQuickAddTarget(settings: QuickAddSettings | undefined, context: QuickAddTargetContext): QuickAddTarget {
+    const heading = settings?.heading?.trim() || null;
+    const inbox = settings?.inboxPath?.trim() || DEFAULT_INBOX_PATH;
+
+    switch (settings?.destination ?? 'inbox') {
+        case 'daily-note':
+            return { path: toNotePath(context.getDailyNotePath()), heading };
+        case 'host-note':
+            return { path: toNotePath(context.hostPath || inbox), heading };
+        case 'file': {
+            const filePath = settings?.filePath?.trim();
+            if (!filePath) throw new Error('Quick add is set to a file, but no file is configured for this board');
+            return { path: toNotePath(filePath), heading };
+        }
+        default:
+            return { path: toNotePath(inbox), heading };
+    }
+}
+
+/**
+ * Build the task line for text typed into a column, tagged or rewritten to
+ * match the column; throws with a message for the input
+ */
+export function createQuickAddLine(text: string, column: RuleColumn, context: RuleContext): string {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error('Task text can\'t be empty');
+    if (/[\r\n]/.test(trimmed)) throw new Error('Task text must fit on one line');
+
+    const line = applyRule(`- [ ] ${expandDateShorthand(trimmed, context.today)}`, getColumnRule(column), context);
+    if (line === null) throw new Error('Tasks can\'t be added to this column: its rule can\'t be written to a task');
+
+    // Round-trip through the serializer so the line is in canonical Tasks order
+    return editTaskLineTokens(line, () => undefined);
+}
+
+/**
+ * Replace relative dates after a date emoji with YYYY-MM-DD: `today`,
+ * `tomorrow`, `yesterday`, `+3d`, `+2w`, `-1d` and weekday names (the next
+ * such day)
+ */
+export function expandDateShorthand(text: string, today: string): string {
+    return text.replace(DATE_SHORTHAND, (match, emoji: string, value: string) => {
+        if (isValidISODate(value)) return `${emoji} ${value}`;
+        const date = resolveRelativeDate(value, today);
+        if (!date) {
+            throw new Error(`Couldn't read "${value}" as a date; use YYYY-MM-DD, today, tomorrow, +3d or a weekday`);
+        }
+        return `${emoji} ${date}`;
+    });
+}
+
+/**
+ * Insert a line at the end of a heading's section, adding the heading at the
+ * end of the note when it is missing; without a heading the line is appended
+ */
+export function insertLineUnderHeading(content: string, line: string, heading: string | null): string {
+    const lines = content === '' ? [] : content.split('\n');
+    const trailingNewline = content.endsWith('\n');
+    if (trailingNewline) lines.pop();
+
+    const section = heading ? findSection(lines, heading) : null;
+    if (section) {
+        let insertAt = section.end;
+        while (insertAt > section.start + 1 && !lines[insertAt - 1]?.trim()) insertAt--;
+        lines.splice(insertAt, 0, line);
+    } else {
+        while (lines.length > 0 && !lines[lines.length - 1]?.trim()) lines.pop();
+        if (heading) {
+            if (lines.length > 0) lines.push('');
+            lines.push(HEADING.test(heading) ? heading : `## ${heading}`);
+        }
+        lines.push(line);
+    }
+
+    return lines.join('\n') + (trailingNewline || content === '' ? '\n' : '');
+}
+
+/**
+ * Add a task line to a note through the shared write queue, creating the
+ * note (and its folder) when it doesn't exist yet
+ */
+export async function addTaskToNote<F extends { path: string }>(vault: QuickAddVault<F>, target: QuickAddTarget, line: string): Promise<void> {
+    const existing = vault.getAbstractFileByPath(target.path);
+    if (existing) {
+        if (!('extension' in (existing as object))) throw new Error(`${target.path} is a folder, not a note`);
+        await getTaskWriter(vault).editFile(existing as F, content => insertLineUnderHeading(content, line, target.heading));
+        return;
+    }
+
+    const folder = target.path.includes('/') ? target.path.slice(0, target.path.lastIndexOf('/')) : '';
+    if (folder && !vault.getAbstractFileByPath(folder)) await vault.createFolder(folder);
+    await vault.create(target.path, insertLineUnderHeading('', line, target.heading));
+}
+
+/**
+ * Path of today's daily note from the core Daily notes settings, using
+ * Obsidian's moment for the file name format
+ */
+export function getDailyNotePath(app: object, now: Date = new Date()): string {
+    const options = (app as DailyNotesApp).internalPlugins?.getPluginById?.('daily-notes')?.instance?.options ?? {};
+    const moment = (globalThis as { moment?: (date: Date) => { format(format: string): string } }).moment;
+    const name = moment ? moment(now).format(options.format || 'YYYY-MM-DD') : toISODate(now);
+    const folder = (options.folder ?? '').replace(/^\/+|\/+$/g, '');
+    return folder ? `${folder}/${name}` : name;
+}
+
+// Add the markdown extension to a note path typed without it
+function toNotePath(path: string): string {
+    const trimmed = path.trim().replace(/^\/+/, '');
+    return /\.md$/i.test(trimmed) ? trimmed : `${trimmed}.md`;
+}
+
+function resolveRelativeDate(value: string, today: string): string | null {
+    const word = value.toLowerCase();
+    if (word === 'today') return today;
+    if (word === 'tomorrow') return addDays(today, 1);
+    if (word === 'yesterday') return addDays(today, -1);
+
+    const offset = /^([+-]\d+)([dw])$/.exec(word);
+    if (offset) return addDays(today, Number(offset[1]) * (offset[2] === 'w' ? 7 : 1));
+
+    const weekday = WEEKDAYS.findIndex(day => word.length >= 3 && day.startsWith(word));
+    const date = parseISODate(today);
+    if (weekday === -1 || !date) return null;
+    return addDays(today, (weekday - date.getDay() + 7) % 7 || 7);
+}
+
+// Lines of a heading's section: from the heading to the next heading of the same or a higher level
+function findSection(lines: string[], heading: string): { start: number; end: number } | null {
+    const wanted = HEADING.exec(heading);
+    const text = (wanted ? wanted[2] ?? '' : heading).trim().toLowerCase();
+
+    const start = lines.findIndex(line => HEADING.exec(line)?.[2]?.trim().toLowerCase() === text);
+    if (start === -1) return null;
+
+    const level = HEADING.exec(lines[start] ?? '')?.[1]?.length ?? 1;
+    let end = start + 1;
+    while (end < lines.length) {
+        const match = HEADING.exec(lines[end] ?? '');
+        if (match && (match[1]?.length ?? 0) <= level) break;
+        end++;
+    }
+    return { start, end };
+}
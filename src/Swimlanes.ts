@@ -0,0 +1,138 @@
+/**
+ * Swimlanes - Second grouping axis for the kanban board
+ *
+ * Each lane is a horizontal row keyed by source folder, source file, a tag
+ * prefix (e.g. `#project/`) or a Datacore field, and holds the full set of
+ * status columns.
+ */
+
+import { getTaskField, getTaskFolder, getTaskPath, TaskLike } from './TaskFields';
+import { setInlineField } from './TaskLineEdits';
+import { addLineTag, editTaskLineTokens, getLineTags, removeLineTag } from './TaskLine';
+
+export type SwimlaneGroupBy = 'none' | 'folder' | 'file' | 'tag' | 'field';
+
+export interface SwimlaneSettings {
+    groupBy: SwimlaneGroupBy;
+    /** Tag prefix used when grouping by tag, e.g. `#project` for `#project/*` */
+    tagPrefix?: string;
+    /** Inline field used when grouping by field, e.g. `project` */
+    field?: string;
+    /** Lane keys that start collapsed */
+    collapsed?: string[];
+}
+
+export interface Swimlane<T extends TaskLike> {
+    key: string;
+    label: string;
+    tasks: T[];
+}
+
+/** Key of the lane holding tasks without a lane value */
+export const UNASSIGNED_LANE = '';
+
+export function isSwimlaneEnabled(settings: SwimlaneSettings | undefined): settings is SwimlaneSettings {
+    return !!settings && settings.groupBy !== 'none';
+}
+
+/**
+ * Get the lane key of a task
+ */
+export function getLaneKey(task: TaskLike, settings: SwimlaneSettings): string {
+    switch (settings.groupBy) {
+        case 'folder':
+            return getTaskFolder(task) || '/';
+        case 'file':
+            return getTaskPath(task);
+        case 'tag': {
+            const prefix = normalizeTagPrefix(settings.tagPrefix);
+            if (!prefix) return UNASSIGNED_LANE;
+            const match = (task.tags ?? []).find(tag => tag.toLowerCase().startsWith(`${prefix.toLowerCase()}/`));
+            return match ?? UNASSIGNED_LANE;
+        }
+        case 'field': {
+            if (!settings.field) return UNASSIGNED_LANE;
+            const value = getTaskField(task, settings.field);
+            return value === undefined || value === null ? UNASSIGNED_LANE : String(value);
+        }
+        default:
+            return UNASSIGNED_LANE;
+    }
+}
+
+/**
+ * Get the display label of a lane key
+ */
+export function getLaneLabel(key: string, settings: SwimlaneSettings): string {
+    if (key === UNASSIGNED_LANE) return 'Unassigned';
+
+    switch (settings.groupBy) {
+        case 'file':
+            return (key.split('/').pop() ?? key).replace(/\.md$/, '');
+        case 'tag':
+            return key.slice(normalizeTagPrefix(settings.tagPrefix).length + 1);
+        default:
+            return key;
+    }
+}
+
+/**
+ * Group tasks into lanes, sorted by label with the unassigned lane last
+ */
+export function groupTasksByLane<T extends TaskLike>(tasks: T[], settings: SwimlaneSettings): Swimlane<T>[] {
+    const lanes = new Map<string, Swimlane<T>>();
+
+    for (const task of tasks) {
+        const key = getLaneKey(task, settings);
+        let lane = lanes.get(key);
+        if (!lane) {
+            lane = { key, label: getLaneLabel(key, settings), tasks: [] };
+            lanes.set(key, lane);
+        }
+        lane.tasks.push(task);
+    }
+
+    return Array.from(lanes.values()).sort((a, b) => {
+        if (a.key === UNASSIGNED_LANE) return 1;
+        if (b.key === UNASSIGNED_LANE) return -1;
+        return a.label.localeCompare(b.label);
+    });
+}
+
+/**
+ * Whether moving a card between lanes can be written back to the task line.
+ * Folder and file lanes would require moving the line to another file.
+ */
+export function canRewriteLane(settings: SwimlaneSettings): boolean {
+    return (settings.groupBy === 'tag' && !!normalizeTagPrefix(settings.tagPrefix))
+        || (settings.groupBy === 'field' && !!settings.field);
+}
+
+/**
+ * Rewrite the lane key on a task line, replacing any existing lane value.
+ * An empty key removes the lane value. Lane tags join the other tags, ahead
+ * of Tasks emoji fields and the block id.
+ */
+export function rewriteLaneKey(line: string, settings: SwimlaneSettings, toKey: string): string {
+    if (settings.groupBy === 'tag') {
+        const prefix = `${normalizeTagPrefix(settings.tagPrefix).toLowerCase()}/`;
+        return editTaskLineTokens(line, tokens => {
+            getLineTags(tokens)
+                .filter(tag => tag.toLowerCase().startsWith(prefix))
+                .forEach(tag => removeLineTag(tokens, tag));
+            if (toKey) addLineTag(tokens, toKey);
+        });
+    }
+
+    if (settings.groupBy === 'field' && settings.field) {
+        return setInlineField(line, settings.field, toKey || null);
+    }
+
+    return line;
+}
+
+function normalizeTagPrefix(prefix: string | undefined): string {
+    if (!prefix) return '';
+    const trimmed = prefix.trim().replace(/\/+$/, '');
+    return trimmed.startsWith('#') ? trimmed : `#${trimmed}`;
+}
@@ -0,0 +1,119 @@
+/**
+ * TaskEdits - Inline edits made on a card
+ *
+ * Each edit changes one part of the task (text, a date, the priority or a
+ * tag) and is written back through the TaskLine serializer, so the line
+ * stays valid Tasks syntax whatever the user typed. Edits are validated
+ * first; the error message is shown on the card.
+ */
+
+import { normalizeTag } from './BulkActions';
+import { isValidISODate } from './DateUtils';
+import { addLineTag, editTaskLineTokens, getLineTags, tokenizeTaskLine, TaskPriorityName } from './TaskLine';
+import { addTag, removeTag, setPriority } from './TaskLineEdits';
+
+export type TaskDateField = 'due' | 'scheduled' | 'start';
+
+export type TaskEdit =
+    | { type: 'text'; text: string }
+    | { type: 'date'; field: TaskDateField; date: string | null }
+    | { type: 'priority'; priority: TaskPriorityName | null }
+    | { type: 'add-tag'; tag: string }
+    | { type: 'remove-tag'; tag: string };
+
+export const TASK_DATE_LABELS: Record<TaskDateField, string> = {
+    due: 'Due',
+    scheduled: 'Scheduled',
+    start: 'Start'
+};
+
+/**
+ * Check an edit, returning the message to show on the card or null if valid
+ */
+export function validateTaskEdit(edit: TaskEdit): string | null {
+    switch (edit.type) {
+        case 'text':
+            if (!edit.text.trim()) return 'Task text can\'t be empty';
+            if (/[\r\n]/.test(edit.text)) return 'Task text must fit on one line';
+            return null;
+        case 'date':
+            if (edit.date !== null && !isValidISODate(edit.date)) {
+                return `${TASK_DATE_LABELS[edit.field]} date must be a valid date as YYYY-MM-DD`;
+            }
+            return null;
+        case 'add-tag':
+        case 'remove-tag': {
+            const tag = normalizeTag(edit.tag);
+            if (!/^#[^\s#]+$/u.test(tag)) return `"${edit.tag}" is not a valid tag`;
+            if (/^#\d+$/.test(tag)) return 'Tags need at least one non-numeric character';
+            return null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Apply an edit to a task line; throws with the validation message if invalid
+ */
+export function applyTaskEdit(line: string, edit: TaskEdit): string {
+    const error = validateTaskEdit(edit);
+    if (error) throw new Error(error);
+
+    switch (edit.type) {
+        case 'text':
+            return setTaskText(line, edit.text);
+        case 'date':
+            return editTaskLineTokens(line, tokens => {
+                if (edit.date === null) {
+                    delete tokens.fields[edit.field];
+                } else {
+                    tokens.fields[edit.field] = edit.date;
+                }
+            });
+        case 'priority':
+            return setPriority(line, edit.priority);
+        case 'add-tag':
+            return addTag(line, normalizeTag(edit.tag));
+        case 'remove-tag':
+            return removeTag(line, normalizeTag(edit.tag));
+    }
+}
+
+/**
+ * Describe an edit for the board history
+ */
+export function describeTaskEdit(edit: TaskEdit, taskText: string): string {
+    switch (edit.type) {
+        case 'text':
+            return `Renamed "${taskText}"`;
+        case 'date':
+            return edit.date
+                ? `Set ${TASK_DATE_LABELS[edit.field].toLowerCase()} date of "${taskText}" to ${edit.date}`
+                : `Cleared ${TASK_DATE_LABELS[edit.field].toLowerCase()} date of "${taskText}"`;
+        case 'priority':
+            return edit.priority ? `Set priority of "${taskText}" to ${edit.priority}` : `Cleared priority of "${taskText}"`;
+        case 'add-tag':
+            return `Added ${normalizeTag(edit.tag)} to "${taskText}"`;
+        case 'remove-tag':
+            return `Removed ${normalizeTag(edit.tag)} from "${taskText}"`;
+    }
+}
+
+// Replace the description; metadata typed into the new text is merged into the
+// task, and tags that were in the old description are kept after it
+function setTaskText(line: string, text: string): string {
+    const typed = tokenizeTaskLine(`- [ ] ${text.trim()}`);
+    if (!typed) return line;
+
+    return editTaskLineTokens(line, tokens => {
+        const previousTags = getLineTags(tokens);
+        tokens.description = typed.description;
+        tokens.fields = { ...tokens.fields, ...typed.fields };
+        for (const field of typed.inlineFields) {
+            const key = field.key.toLowerCase();
+            tokens.inlineFields = [...tokens.inlineFields.filter(f => f.key.toLowerCase() !== key), field];
+        }
+        [...typed.tags, ...previousTags].forEach(tag => addLineTag(tokens, tag));
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * TaskErrors - Why a write to a task's note failed
+ *
+ * Writes that fail for a known reason throw a TaskWriteError naming the note
+ * and, when known, the line they were after, so the board can say where the
+ * problem is and whether trying again can help. Errors raised by the vault
+ * are classified by their file system code on the way out of the writer.
+ */
+
+export type TaskErrorKind = 'file-missing' | 'line-moved' | 'read-only' | 'parse-failure';
+
+/** File system error codes and the failures they stand for */
+const ERROR_CODES: Record<string, TaskErrorKind> = {
+    ENOENT: 'file-missing',
+    EACCES: 'read-only',
+    EPERM: 'read-only',
+    EROFS: 'read-only'
+};
+
+/** Failures a retry can fix, once the index caught up or the note is writable again */
+const RETRYABLE_KINDS: ReadonlySet<TaskErrorKind> = new Set(['line-moved', 'read-only']);
+
+export class TaskWriteError extends Error {
+    constructor(
+        readonly kind: TaskErrorKind,
+        message: string,
+        readonly path: string,
+        /** 0-based line the write was after, when known */
+        readonly line: number | null = null
+    ) {
+        super(message);
+        this.name = 'TaskWriteError';
+    }
+
+    /** The note and 1-based line, e.g. `Projects/a.md:12` */
+    get location(): string {
+        return this.line === null ? this.path : `${this.path}:${this.line + 1}`;
+    }
+}
+
+/**
+ * Turn an error raised while writing a note into a TaskWriteError when its
+ * cause is known; other errors are returned unchanged
+ */
+export function classifyWriteError(error: unknown, path: string): unknown {
+    if (error instanceof TaskWriteError) return error;
+
+    const code = (error as { code?: unknown } | null)?.code;
+    const kind = typeof code === 'string' ? ERROR_CODES[code] : undefined;
+    if (kind === 'file-missing') return new TaskWriteError(kind, `${path} no longer exists`, path);
+    if (kind === 'read-only') return new TaskWriteError(kind, `${path} is read-only`, path);
+    return error;
+}
+
+/**
+ * Whether trying a failed write again can succeed; unknown errors are worth
+ * a retry, a deleted note or an unreadable task line are not
+ */
+export function isRetryableError(error: unknown): boolean {
+    return !(error instanceof TaskWriteError) || RETRYABLE_KINDS.has(error.kind);
+}
+
+/**
+ * Describe any thrown value for the user, adding the note and line of a
+ * TaskWriteError unless the message already names them
+ */
+export function formatTaskError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!(error instanceof TaskWriteError) || message.includes(error.location)) return message;
+    return `${message} (${error.location})`;
+}
+
+/**
+ * Error for a task the board acted on that has left the index since it was
+ * rendered. Task ids are `path:line`, so the note tells a deleted file from a
+ * task line that moved or changed, which a retry after re-indexing can find.
+ */
+export function missingTaskError(taskId: string, noteExists: (path: string) => boolean): TaskWriteError {
+    const separator = taskId.lastIndexOf(':');
+    const path = separator > 0 ? taskId.slice(0, separator) : taskId;
+    const line = separator > 0 ? Number(taskId.slice(separator + 1)) : NaN;
+    if (!noteExists(path)) return new TaskWriteError('file-missing', `${path} no longer exists`, path);
+    return new TaskWriteError('line-moved', 'The task is no longer in the index', path, Number.isInteger(line) ? line : null);
+}
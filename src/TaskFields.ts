@@ -0,0 +1,130 @@
+/**
+ * TaskFields - Accessors for task metadata
+ *
+ * Board tasks come either from DatacoreSync (TaskItem) or straight from
+ * dc.useQuery (raw Datacore task objects); these helpers read both shapes.
+ */
+
+import { normalizeDate } from './DateUtils';
+
+export interface TaskLike {
+    id?: string;
+    text?: string;
+    tags?: string[];
+    line?: number;
+    file?: { path: string; basename?: string; name?: string };
+    completed?: boolean;
+    statusSymbol?: string;
+    dueDate?: string;
+    scheduledDate?: string;
+    startDate?: string;
+    createdDate?: string;
+    priority?: string;
+    fields?: Record<string, unknown>;
+    $file?: string;
+    $line?: number;
+    $text?: string;
+    $status?: string;
+    $due?: unknown;
+    $scheduled?: unknown;
+    $start?: unknown;
+    $created?: unknown;
+    $infields?: Record<string, { value: unknown }>;
+}
+
+/**
+ * Get the vault path of the file a task lives in
+ */
+export function getTaskPath(task: TaskLike): string {
+    return task.file?.path ?? task.$file ?? '';
+}
+
+/**
+ * Get the 0-based source line of a task, or null if unknown
+ */
+export function getTaskLineNumber(task: TaskLike): number | null {
+    return task.line ?? task.$line ?? null;
+}
+
+/**
+ * Get the text of a task as recorded by the index
+ */
+export function getTaskText(task: TaskLike): string {
+    return task.text ?? task.$text ?? '';
+}
+
+/**
+ * Get the folder of the file a task lives in ('' for the vault root)
+ */
+export function getTaskFolder(task: TaskLike): string {
+    const path = getTaskPath(task);
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Get the value of an inline Datacore field (`[key:: value]`) on a task
+ */
+export function getTaskField(task: TaskLike, key: string): unknown {
+    const normalized = key.toLowerCase();
+
+    if (task.fields) {
+        for (const [name, value] of Object.entries(task.fields)) {
+            if (name.toLowerCase() === normalized) return value;
+        }
+    }
+
+    return task.$infields?.[normalized]?.value;
+}
+
+/**
+ * Get the Tasks status symbol of a task (the character between the brackets)
+ */
+export function getTaskStatusSymbol(task: TaskLike): string {
+    return task.statusSymbol ?? task.$status ?? (task.completed ? 'x' : ' ');
+}
+
+/**
+ * Get the due date of a task as YYYY-MM-DD, or null if it has none
+ */
+export function getTaskDueDate(task: TaskLike): string | null {
+    return normalizeDate(task.dueDate ?? task.$due);
+}
+
+/**
+ * Get the Tasks scheduled date (⏳) of a task as YYYY-MM-DD, or null if it has none
+ */
+export function getTaskScheduledDate(task: TaskLike): string | null {
+    return normalizeDate(task.scheduledDate ?? task.$scheduled);
+}
+
+/**
+ * Get the Tasks start date (🛫) of a task as YYYY-MM-DD, or null if it has none
+ */
+export function getTaskStartDate(task: TaskLike): string | null {
+    return normalizeDate(task.startDate ?? task.$start);
+}
+
+/**
+ * Get the Tasks created date (➕) of a task as YYYY-MM-DD, or null if it has none
+ */
+export function getTaskCreatedDate(task: TaskLike): string | null {
+    return normalizeDate(task.createdDate ?? task.$created);
+}
+
+/**
+ * Get a numeric inline field, or null if missing or not a number
+ */
+export function getTaskNumberField(task: TaskLike, key: string): number | null {
+    const value = getTaskField(task, key);
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Escape a string for literal use inside a RegExp
+ */
+export function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
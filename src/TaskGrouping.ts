@@ -0,0 +1,114 @@
+/**
+ * TaskGrouping - Shared task-to-column grouping for every board renderer
+ *
+ * Both the plugin view (KanbanBoard) and the embedded Datacore view group
+ * tasks through here, so their columns and counts always agree.
+ */
+
+import { createRuleContext, findMatchingColumn, RuleColumn, RuleContext } from './ColumnRules';
+import type { TaskLike } from './TaskFields';
+
+/**
+ * What happens to tasks that match no column:
+ * - 'first-column': shown in the first column
+ * - 'unsorted': shown in a virtual "Unsorted" column
+ * - 'hide': not shown
+ */
+export type UnsortedPolicy = 'first-column' | 'unsorted' | 'hide';
+
+export const DEFAULT_UNSORTED_POLICY: UnsortedPolicy = 'first-column';
+
+export const UNSORTED_COLUMN_ID = '__unsorted__';
+
+export interface GroupingColumn extends RuleColumn {
+    name: string;
+    color: string;
+    virtual?: boolean;
+}
+
+export interface TaskGroups<T extends TaskLike, C extends GroupingColumn> {
+    /** Columns to render, including the virtual "Unsorted" column when it has tasks */
+    columns: C[];
+    tasksByColumn: Record<string, T[]>;
+    /** Number of unmatched tasks hidden by the 'hide' policy */
+    hiddenCount: number;
+}
+
+/**
+ * Create the virtual column that collects unmatched tasks
+ */
+export function createUnsortedColumn<C extends GroupingColumn>(): C {
+    return {
+        id: UNSORTED_COLUMN_ID,
+        name: 'Unsorted',
+        tag: '',
+        color: 'var(--text-muted)',
+        virtual: true
+    } as C;
+}
+
+export function isVirtualColumn(column: GroupingColumn): boolean {
+    return column.virtual === true;
+}
+
+/**
+ * Resolve the column a task belongs to, or null if it is hidden
+ */
+export function resolveTaskColumn<C extends GroupingColumn>(
+    task: TaskLike,
+    columns: C[],
+    policy: UnsortedPolicy,
+    context: RuleContext
+): C | null {
+    const matchingColumn = findMatchingColumn(task, columns, context);
+    if (matchingColumn) return matchingColumn;
+
+    switch (policy) {
+        case 'first-column':
+            return columns[0] ?? null;
+        case 'unsorted':
+            return createUnsortedColumn<C>();
+        case 'hide':
+            return null;
+    }
+}
+
+/**
+ * Group tasks into columns according to the column rules and unsorted policy
+ */
+export function groupTasksByColumn<T extends TaskLike, C extends GroupingColumn>(
+    tasks: T[],
+    columns: C[],
+    policy: UnsortedPolicy = DEFAULT_UNSORTED_POLICY,
+    context: RuleContext = createRuleContext(columns)
+): TaskGroups<T, C> {
+    const tasksByColumn: Record<string, T[]> = {};
+    columns.forEach(column => {
+        tasksByColumn[column.id] = [];
+    });
+
+    const unsorted: T[] = [];
+    let hiddenCount = 0;
+
+    for (const task of tasks) {
+        const column = resolveTaskColumn(task, columns, policy, context);
+        if (!column) {
+            hiddenCount++;
+        } else if (isVirtualColumn(column)) {
+            unsorted.push(task);
+        } else {
+            tasksByColumn[column.id]?.push(task);
+        }
+    }
+
+    if (unsorted.length === 0) {
+        return { columns, tasksByColumn, hiddenCount };
+    }
+
+    tasksByColumn[UNSORTED_COLUMN_ID] = unsorted;
+    return {
+        columns: [createUnsortedColumn<C>(), ...columns],
+        tasksByColumn,
+        hiddenCount
+    };
+}
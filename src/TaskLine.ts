@@ -0,0 +1,369 @@
+/**
+ * TaskLine - Tokenizer and serializer for markdown task lines
+ *
+ * A task line is split into its checkbox, description, trailing tags, inline
+ * fields (`[key:: value]`) and Tasks emoji fields (`📅 2024-01-15`, `⏫`, ...).
+ * Like the Tasks plugin, only tokens after the last word of text are metadata;
+ * anything before stays part of the description verbatim. Serializing writes
+ * the metadata back in canonical Tasks order, so edited lines keep parsing as
+ * Tasks-format tasks.
+ */
+
+import { escapeRegExp } from './TaskFields';
+
+export type TaskFieldName =
+    | 'id'
+    | 'dependsOn'
+    | 'priority'
+    | 'recurrence'
+    | 'onCompletion'
+    | 'created'
+    | 'start'
+    | 'scheduled'
+    | 'due'
+    | 'cancelled'
+    | 'done';
+
+export type TaskPriorityName = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+
+export interface InlineField {
+    key: string;
+    value: string;
+    /** `[key:: value]` or `(key:: value)` */
+    brackets: '[]' | '()';
+}
+
+export interface TaskLineTokens {
+    indent: string;
+    /** List marker: `-`, `*`, `+` or an ordered marker like `1.` */
+    marker: string;
+    /** Status symbol between the checkbox brackets */
+    status: string;
+    description: string;
+    /** Tags after the description */
+    tags: string[];
+    /** Inline fields after the description */
+    inlineFields: InlineField[];
+    /** Tasks emoji fields; priority holds a TaskPriorityName */
+    fields: Partial<Record<TaskFieldName, string>>;
+    /** Block link id, without the `^` */
+    blockId: string | null;
+}
+
+/** Order the Tasks plugin writes its fields in */
+export const CANONICAL_FIELD_ORDER: readonly TaskFieldName[] = [
+    'id',
+    'dependsOn',
+    'priority',
+    'recurrence',
+    'onCompletion',
+    'created',
+    'start',
+    'scheduled',
+    'due',
+    'cancelled',
+    'done'
+];
+
+export const PRIORITY_EMOJI: Record<TaskPriorityName, string> = {
+    highest: '🔺',
+    high: '⏫',
+    medium: '🔼',
+    low: '🔽',
+    lowest: '⏬'
+};
+
+/** Emoji written for each valued field */
+export const FIELD_EMOJI: Record<Exclude<TaskFieldName, 'priority'>, string> = {
+    id: '🆔',
+    dependsOn: '⛔',
+    recurrence: '🔁',
+    onCompletion: '🏁',
+    created: '➕',
+    start: '🛫',
+    scheduled: '⏳',
+    due: '📅',
+    cancelled: '❌',
+    done: '✅'
+};
+
+/** Alternative emoji the Tasks plugin also reads */
+const FIELD_EMOJI_ALIASES: Record<string, TaskFieldName> = {
+    '📆': 'due',
+    '🗓': 'due',
+    '⌛': 'scheduled'
+};
+
+const DATE_VALUE = /\d{4}-\d{2}-\d{2}/y;
+const FIELD_VALUES: Partial<Record<TaskFieldName, RegExp>> = {
+    id: /[A-Za-z0-9_-]+/y,
+    dependsOn: /[A-Za-z0-9_-]+(?:[ \t]*,[ \t]*[A-Za-z0-9_-]+)*/y,
+    onCompletion: /[A-Za-z]+/y,
+    created: DATE_VALUE,
+    start: DATE_VALUE,
+    scheduled: DATE_VALUE,
+    due: DATE_VALUE,
+    cancelled: DATE_VALUE,
+    done: DATE_VALUE
+};
+
+const TASK_LINE = /^(\s*)([-*+]|\d+[.)])\s+\[(.)\](?:\s+(.*?))?\s*$/u;
+const TAG = /#[^\s#!@$%^&*(),.?":{}|<>[\]`'=;~+\\]+/yu;
+const INLINE_FIELD = /\[([^[\]()]+?)::[ \t]*([^[\]]*?)[ \t]*\]|\(([^[\]()]+?)::[ \t]*([^()]*?)[ \t]*\)/yu;
+const BLOCK_ID = /\^([A-Za-z0-9-]+)$/yu;
+const WORD = /\S+/yu;
+const WHITESPACE = /\s*/yu;
+
+const EMOJI_SOURCE = [
+    ...Object.values(PRIORITY_EMOJI),
+    ...Object.values(FIELD_EMOJI),
+    ...Object.keys(FIELD_EMOJI_ALIASES)
+].map(escapeRegExp).join('|');
+const EMOJI = new RegExp(`(${EMOJI_SOURCE})\\uFE0F?`, 'yu');
+
+type Token =
+    | { kind: 'word'; start: number; end: number }
+    | { kind: 'tag'; start: number; end: number; tag: string }
+    | { kind: 'inline'; start: number; end: number; field: InlineField }
+    | { kind: 'field'; start: number; end: number; name: TaskFieldName; value: string }
+    | { kind: 'block'; start: number; end: number; id: string };
+
+/**
+ * Split a task line into tokens, or return null if it is not a task line
+ */
+export function tokenizeTaskLine(line: string): TaskLineTokens | null {
+    const match = TASK_LINE.exec(line);
+    if (!match) return null;
+
+    const body = match[4] ?? '';
+    const tokens = scanBody(body);
+
+    // Metadata only counts after the last word of text
+    let lastWord = -1;
+    tokens.forEach((token, index) => {
+        if (token.kind === 'word') lastWord = index;
+    });
+    const lastWordToken = tokens[lastWord];
+
+    const result: TaskLineTokens = {
+        indent: match[1] ?? '',
+        marker: match[2] ?? '-',
+        status: match[3] ?? ' ',
+        description: lastWordToken ? body.slice(0, lastWordToken.end) : '',
+        tags: [],
+        inlineFields: [],
+        fields: {},
+        blockId: null
+    };
+
+    for (const token of tokens.slice(lastWord + 1)) {
+        switch (token.kind) {
+            case 'tag':
+                result.tags.push(token.tag);
+                break;
+            case 'inline':
+                result.inlineFields.push(token.field);
+                break;
+            case 'field':
+                result.fields[token.name] = token.value;
+                break;
+            case 'block':
+                result.blockId = token.id;
+                break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Write tokens back as a task line, with metadata in canonical Tasks order
+ */
+export function formatTaskLine(tokens: TaskLineTokens): string {
+    const parts: string[] = [tokens.description.trim(), ...tokens.tags];
+
+    for (const field of tokens.inlineFields) {
+        const content = field.value ? `${field.key}:: ${field.value}` : `${field.key}::`;
+        parts.push(field.brackets === '()' ? `(${content})` : `[${content}]`);
+    }
+
+    for (const name of CANONICAL_FIELD_ORDER) {
+        const value = tokens.fields[name];
+        if (value === undefined) continue;
+        if (name === 'priority') {
+            const emoji = PRIORITY_EMOJI[value as TaskPriorityName];
+            if (emoji) parts.push(emoji);
+        } else {
+            parts.push(`${FIELD_EMOJI[name]} ${value}`);
+        }
+    }
+
+    if (tokens.blockId) parts.push(`^${tokens.blockId}`);
+
+    const body = parts.filter(part => part !== '').join(' ');
+    const checkbox = `${tokens.indent}${tokens.marker} [${tokens.status}]`;
+    return body ? `${checkbox} ${body}` : checkbox;
+}
+
+/**
+ * Tokenize a task line, edit the tokens and serialize them again; lines that
+ * are not tasks are returned unchanged
+ */
+export function editTaskLineTokens(line: string, edit: (tokens: TaskLineTokens) => void): string {
+    const tokens = tokenizeTaskLine(line);
+    if (!tokens) return line;
+    edit(tokens);
+    return formatTaskLine(tokens);
+}
+
+/**
+ * Every tag on the task, in the description and after it
+ */
+export function getLineTags(tokens: TaskLineTokens): string[] {
+    const descriptionTags = scanBody(tokens.description)
+        .filter((token): token is Extract<Token, { kind: 'tag' }> => token.kind === 'tag')
+        .map(token => token.tag);
+    return [...descriptionTags, ...tokens.tags];
+}
+
+/**
+ * Whether the task has a tag as a whole token (case-insensitive)
+ */
+export function hasLineTag(tokens: TaskLineTokens, tag: string): boolean {
+    const normalized = tag.toLowerCase();
+    return getLineTags(tokens).some(t => t.toLowerCase() === normalized);
+}
+
+/**
+ * Remove whole occurrences of a tag, from the trailing tags and the description
+ */
+export function removeLineTag(tokens: TaskLineTokens, tag: string): void {
+    const normalized = tag.toLowerCase();
+    tokens.tags = tokens.tags.filter(t => t.toLowerCase() !== normalized);
+    tokens.description = tokens.description
+        .replace(new RegExp(`\\s*(?<![^\\s])${escapeRegExp(tag)}(?![^\\s,;.!?)\\]])`, 'giu'), '')
+        .trim();
+}
+
+/**
+ * Add a trailing tag unless the task already has it
+ */
+export function addLineTag(tokens: TaskLineTokens, tag: string): void {
+    if (!hasLineTag(tokens, tag)) {
+        tokens.tags.push(tag);
+    }
+}
+
+/**
+ * Swap whichever status tags a line carries for `newTag`, leaving every other
+ * tag and the description untouched
+ */
+export function replaceStatusTag(line: string, statusTags: string[], newTag: string): string {
+    return editTaskLineTokens(line, tokens => {
+        statusTags
+            .filter(tag => tag && tag.toLowerCase() !== newTag.toLowerCase())
+            .forEach(tag => removeLineTag(tokens, tag));
+        if (newTag) addLineTag(tokens, newTag);
+    });
+}
+
+// Split a task body into word, tag, inline field, emoji field and block id tokens
+function scanBody(body: string): Token[] {
+    const tokens: Token[] = [];
+    let position = skipWhitespace(body, 0);
+
+    while (position < body.length) {
+        const token = scanToken(body, position);
+        tokens.push(token);
+        position = skipWhitespace(body, token.end);
+    }
+    return tokens;
+}
+
+function scanToken(body: string, start: number): Token {
+    const inline = matchAt(INLINE_FIELD, body, start);
+    if (inline && endsToken(body, start + inline[0].length)) {
+        const brackets = inline[1] !== undefined ? '[]' : '()';
+        const key = (inline[1] ?? inline[3] ?? '').trim();
+        const value = (inline[2] ?? inline[4] ?? '').trim();
+        return { kind: 'inline', start, end: start + inline[0].length, field: { key, value, brackets } };
+    }
+
+    const field = scanEmojiField(body, start);
+    if (field) return field;
+
+    // Obsidian tags need at least one non-numeric character
+    const tag = matchAt(TAG, body, start);
+    if (tag && /\D/.test(tag[0].slice(1)) && endsToken(body, start + tag[0].length)) {
+        return { kind: 'tag', start, end: start + tag[0].length, tag: tag[0] };
+    }
+
+    const block = matchAt(BLOCK_ID, body, start);
+    if (block) {
+        return { kind: 'block', start, end: start + block[0].length, id: block[1] ?? '' };
+    }
+
+    const word = matchAt(WORD, body, start);
+    return { kind: 'word', start, end: start + (word?.[0].length ?? 1) };
+}
+
+function scanEmojiField(body: string, start: number): Token | null {
+    const emoji = matchAt(EMOJI, body, start);
+    if (!emoji) return null;
+
+    const symbol = emoji[1] ?? '';
+    const afterEmoji = start + emoji[0].length;
+
+    const priority = (Object.keys(PRIORITY_EMOJI) as TaskPriorityName[]).find(name => PRIORITY_EMOJI[name] === symbol);
+    if (priority) {
+        return endsToken(body, afterEmoji) ? { kind: 'field', start, end: afterEmoji, name: 'priority', value: priority } : null;
+    }
+
+    const name = FIELD_EMOJI_ALIASES[symbol]
+        ?? (Object.keys(FIELD_EMOJI) as Exclude<TaskFieldName, 'priority'>[]).find(key => FIELD_EMOJI[key] === symbol);
+    if (!name) return null;
+
+    const valueStart = skipWhitespace(body, afterEmoji);
+    if (name === 'recurrence') {
+        const end = scanRecurrenceEnd(body, valueStart);
+        const value = body.slice(valueStart, end).trim();
+        return value ? { kind: 'field', start, end, name, value } : null;
+    }
+
+    const pattern = FIELD_VALUES[name];
+    const value = pattern ? matchAt(pattern, body, valueStart) : null;
+    if (!value || !endsToken(body, valueStart + value[0].length)) return null;
+    return { kind: 'field', start, end: valueStart + value[0].length, name, value: value[0] };
+}
+
+// Recurrence text runs until the next metadata token
+function scanRecurrenceEnd(body: string, start: number): number {
+    let end = start;
+    let position = start;
+    while (position < body.length) {
+        const word = matchAt(WORD, body, position);
+        if (!word) break;
+        const isMetadata = matchAt(EMOJI, body, position)
+            || matchAt(INLINE_FIELD, body, position)
+            || matchAt(TAG, body, position)
+            || matchAt(BLOCK_ID, body, position);
+        if (isMetadata) break;
+        end = position + word[0].length;
+        position = skipWhitespace(body, end);
+    }
+    return end;
+}
+
+function matchAt(pattern: RegExp, text: string, position: number): RegExpExecArray | null {
+    pattern.lastIndex = position;
+    return pattern.exec(text);
+}
+
+function skipWhitespace(text: string, position: number): number {
+    const match = matchAt(WHITESPACE, text, position);
+    return position + (match?.[0].length ?? 0);
+}
+
+// Tokens must be followed by whitespace or the end of the line
+function endsToken(text: string, position: number): boolean {
+    return position >= text.length || /\s/.test(text[position] ?? '');
+}
@@ -0,0 +1,170 @@
+/**
+ * TaskLineEdits - Small, pure edits on a single markdown task line
+ *
+ * Used by the board's write-back paths (column rules, swimlanes, ordering) so
+ * every move edits the source line the same way. Edits go through the TaskLine
+ * tokenizer, so lines are re-serialized in canonical Tasks order; lines that
+ * are not tasks are returned unchanged.
+ */
+
+import { addDays } from './DateUtils';
+import { escapeRegExp } from './TaskFields';
+import {
+    addLineTag,
+    editTaskLineTokens,
+    hasLineTag,
+    removeLineTag,
+    replaceStatusTag,
+    TaskPriorityName,
+    tokenizeTaskLine
+} from './TaskLine';
+
+/** Status tag that marks a task as completed */
+export const DONE_TAG = '#done';
+
+/**
+ * Replace the status symbol between the checkbox brackets
+ */
+export function setStatusSymbol(line: string, symbol: string): string {
+    return editTaskLineTokens(line, tokens => {
+        tokens.status = symbol;
+    });
+}
+
+/**
+ * Whether a tag is present on the line as a whole tag
+ */
+export function hasTag(line: string, tag: string): boolean {
+    const tokens = tokenizeTaskLine(line);
+    return !!tokens && hasLineTag(tokens, tag);
+}
+
+/**
+ * Remove every whole occurrence of a tag from the line
+ */
+export function removeTag(line: string, tag: string): string {
+    return editTaskLineTokens(line, tokens => removeLineTag(tokens, tag));
+}
+
+/**
+ * Add a tag to the line unless it is already present
+ */
+export function addTag(line: string, tag: string): string {
+    return editTaskLineTokens(line, tokens => addLineTag(tokens, tag));
+}
+
+/**
+ * Move a task to another status tag, checking it off with a done date
+ * (`✅ YYYY-MM-DD`, as the Tasks plugin does) when it moves to the done tag,
+ * and reopening it without the done date when it leaves
+ */
+export function setStatusTag(line: string, statusTags: string[], newTag: string, today: string): string {
+    const updated = replaceStatusTag(line, statusTags, newTag);
+    if (newTag.toLowerCase() === DONE_TAG) return completeTask(updated, today);
+    return hasTag(line, DONE_TAG) ? reopenTask(updated) : updated;
+}
+
+/**
+ * Set, replace or (with null) remove an inline field, e.g. `[status:: review]`
+ */
+export function setInlineField(line: string, key: string, value: string | null): string {
+    return editTaskLineTokens(line, tokens => {
+        const normalized = key.toLowerCase();
+        const existing = tokens.inlineFields.find(field => field.key.toLowerCase() === normalized);
+
+        // Fields written inside the description are dropped in favour of a trailing one
+        const inDescription = new RegExp(`\\s*[[(]${escapeRegExp(key)}::[^\\])]*[\\])]`, 'gi');
+        tokens.description = tokens.description.replace(inDescription, '').trim();
+
+        if (value === null) {
+            tokens.inlineFields = tokens.inlineFields.filter(field => field.key.toLowerCase() !== normalized);
+        } else if (existing) {
+            existing.value = value;
+        } else {
+            tokens.inlineFields.push({ key, value, brackets: '[]' });
+        }
+    });
+}
+
+/**
+ * Set, replace or (with null) remove the Tasks due date (`📅 YYYY-MM-DD`)
+ */
+export function setDueDate(line: string, date: string | null): string {
+    return editTaskLineTokens(line, tokens => {
+        if (date === null) {
+            delete tokens.fields.due;
+        } else {
+            tokens.fields.due = date;
+        }
+    });
+}
+
+/**
+ * Set or (with null) remove the Tasks priority
+ */
+export function setPriority(line: string, priority: TaskPriorityName | null): string {
+    return editTaskLineTokens(line, tokens => {
+        if (priority === null) {
+            delete tokens.fields.priority;
+        } else {
+            tokens.fields.priority = priority;
+        }
+    });
+}
+
+/**
+ * Check a task off and stamp the Tasks done date (`✅ YYYY-MM-DD`) unless it has one
+ */
+export function completeTask(line: string, today: string): string {
+    return editTaskLineTokens(line, tokens => {
+        tokens.status = 'x';
+        tokens.fields.done = tokens.fields.done ?? today;
+    });
+}
+
+/**
+ * Check a task off (see `completeTask`), or reopen a checked-off task and
+ * drop its done date
+ */
+export function toggleTaskCompletion(line: string, today: string): string {
+    const tokens = tokenizeTaskLine(line);
+    if (!tokens || tokens.status.toLowerCase() !== 'x') return completeTask(line, today);
+
+    return reopenTask(line);
+}
+
+/**
+ * Move the due date a number of days later, counting from the due date, or
+ * from today when the task has none or is overdue
+ */
+export function postponeDueDate(line: string, days: number, today: string): string {
+    return editTaskLineTokens(line, tokens => {
+        const due = tokens.fields.due;
+        tokens.fields.due = addDays(due && due > today ? due : today, days);
+    });
+}
+
+/**
+ * Give a task a block id unless it has one; returns the line and the id
+ */
+export function ensureBlockId(line: string, createId: () => string = createBlockId): { line: string; blockId: string | null } {
+    const tokens = tokenizeTaskLine(line);
+    if (!tokens) return { line, blockId: null };
+    if (tokens.blockId) return { line, blockId: tokens.blockId };
+
+    const blockId = createId();
+    return { line: editTaskLineTokens(line, edited => { edited.blockId = blockId; }), blockId };
+}
+
+// Random id in the style Obsidian uses for block references
+function createBlockId(): string {
+    return Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+}
+
+// Uncheck a task and drop its done date
+function reopenTask(line: string): string {
+    return editTaskLineTokens(line, tokens => {
+        tokens.status = ' ';
+        delete tokens.fields.done;
+    });
+}
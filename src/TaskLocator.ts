@@ -0,0 +1,101 @@
+/**
+ * TaskLocator - Find a task's source line before writing to it
+ *
+ * Tasks are addressed by the line number the index recorded, which goes stale
+ * as soon as the note is edited above the task. Before a write, the recorded
+ * line is checked against the task's text (or a hash of the whole line); if
+ * the task moved it is searched for nearby, nearest first, and the write is
+ * aborted when it cannot be found rather than editing an unrelated line.
+ */
+
+import { getTaskLineNumber, getTaskPath, getTaskText, TaskLike } from './TaskFields';
+import { getLineTags, removeLineTag, tokenizeTaskLine } from './TaskLine';
+import { TaskWriteError } from './TaskErrors';
+
+export interface TaskAnchor {
+    path: string;
+    /** 0-based line recorded by the index */
+    line: number;
+    /** Task text recorded by the index, with or without its metadata */
+    text?: string | undefined;
+    /** `hashTaskLine` of the line recorded by the index */
+    hash?: string | undefined;
+}
+
+/** How many lines above and below the recorded line a moved task is searched for */
+export const LOCATE_WINDOW = 50;
+
+/**
+ * Build the anchor of a task from its index data, or null if it has no line
+ */
+export function getTaskAnchor(task: TaskLike): TaskAnchor | null {
+    const line = getTaskLineNumber(task);
+    if (line === null) return null;
+    return { path: getTaskPath(task), line, text: getTaskText(task) || undefined };
+}
+
+/**
+ * Hash a source line (FNV-1a), ignoring surrounding whitespace
+ */
+export function hashTaskLine(line: string): string {
+    let hash = 0x811c9dc5;
+    for (const char of line.trim()) {
+        hash ^= char.codePointAt(0) ?? 0;
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Whether a line still holds the anchored task. Text matches ignore tags,
+ * fields and the status, so a task edited by hand is still recognized; an
+ * anchor without text or hash only requires a task line.
+ */
+export function matchesTaskLine(line: string, anchor: TaskAnchor): boolean {
+    const plain = getPlainText(line);
+    if (plain === null) return false;
+    if (anchor.hash && hashTaskLine(line) === anchor.hash) return true;
+    if (anchor.text) return getPlainText(`- [ ] ${anchor.text}`) === plain;
+    return !anchor.hash;
+}
+
+/**
+ * Find the current line of a task: the recorded line if it still matches,
+ * otherwise the nearest matching line within the window, or null
+ */
+export function locateTaskLine(lines: readonly string[], anchor: TaskAnchor, window = LOCATE_WINDOW): number | null {
+    for (let distance = 0; distance <= window; distance++) {
+        for (const index of distance === 0 ? [anchor.line] : [anchor.line - distance, anchor.line + distance]) {
+            const line = lines[index];
+            if (line !== undefined && matchesTaskLine(line, anchor)) return index;
+        }
+    }
+    return null;
+}
+
+/**
+ * Like `locateTaskLine`, but throws when the task cannot be found so the
+ * caller aborts the write
+ */
+export function requireTaskLine(lines: readonly string[], anchor: TaskAnchor, window = LOCATE_WINDOW): number {
+    const index = locateTaskLine(lines, anchor, window);
+    if (index === null) {
+        const label = anchor.text ? `"${anchor.text}"` : 'Task';
+        throw new TaskWriteError(
+            'line-moved',
+            `${label} is no longer at ${anchor.path}:${anchor.line + 1} and was not found nearby. ` +
+            'The note changed since the board was loaded, so it was not modified; refresh the board and try again.',
+            anchor.path,
+            anchor.line
+        );
+    }
+    return index;
+}
+
+// Description of a task line without tags and extra whitespace, or null if it is not a task
+function getPlainText(line: string): string | null {
+    const tokens = tokenizeTaskLine(line);
+    if (!tokens) return null;
+    getLineTags(tokens).forEach(tag => removeLineTag(tokens, tag));
+    return tokens.description.replace(/\s+/g, ' ').trim();
+}
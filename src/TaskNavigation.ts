@@ -0,0 +1,113 @@
+/**
+ * TaskNavigation - Open a card's source line in the editor
+ *
+ * The line the index recorded may be stale, so the note is read and the task
+ * located like before a write; the note then opens scrolled to the task with
+ * the line selected. Click modifiers pick the pane the way Obsidian links do.
+ */
+
+import { getTaskLineNumber, getTaskPath, getTaskText, TaskLike } from './TaskFields';
+import { tokenizeTaskLine } from './TaskLine';
+import { getTaskAnchor, locateTaskLine, TaskAnchor } from './TaskLocator';
+
+/** Where a note opens: the current pane (false), a new tab, a split or a window */
+export type SourcePaneType = false | 'tab' | 'split' | 'window';
+
+export interface EditorPosition {
+    line: number;
+    ch: number;
+}
+
+export interface SourceSelection {
+    line: number;
+    from: EditorPosition;
+    to: EditorPosition;
+}
+
+/** The parts of Obsidian's App used to open notes */
+export interface NavigationApp<F> {
+    vault: {
+        getAbstractFileByPath(path: string): unknown;
+        cachedRead(file: F): Promise<string>;
+    };
+    workspace: {
+        getLeaf(paneType: SourcePaneType): {
+            openFile(file: F, state?: { active?: boolean; eState?: Record<string, unknown> }): Promise<void>;
+        };
+    };
+}
+
+/** Id of the board views as a source of the `hover-link` event */
+export const HOVER_SOURCE_ID = 'kanban-board-view';
+
+/**
+ * Pick the pane from the click modifiers, like Obsidian's `Keymap.isModEvent`:
+ * Mod opens a tab, Mod+Alt a split, Mod+Alt+Shift a window, middle click a tab
+ */
+export function getSourcePaneType(event: { ctrlKey: boolean; metaKey: boolean; altKey: boolean; shiftKey: boolean; button?: number }): SourcePaneType {
+    if (event.button === 1) return 'tab';
+    if (!event.ctrlKey && !event.metaKey) return false;
+    if (event.altKey) return event.shiftKey ? 'window' : 'split';
+    return 'tab';
+}
+
+/**
+ * Get the editor selection of a task's current line, falling back to the
+ * recorded line when the task can't be found
+ */
+export function getSourceSelection(content: string, anchor: TaskAnchor): SourceSelection {
+    const lines = content.split('\n');
+    const line = locateTaskLine(lines, anchor) ?? Math.max(0, Math.min(anchor.line, lines.length - 1));
+    const text = lines[line] ?? '';
+    return {
+        line,
+        from: { line, ch: text.length - text.trimStart().length },
+        to: { line, ch: text.trimEnd().length }
+    };
+}
+
+/**
+ * Link text of a task: its note, and its block when the task has a block id
+ */
+export function getTaskLinkText(task: TaskLike): string {
+    const path = getTaskPath(task);
+    const blockId = tokenizeTaskLine(`- [ ] ${getTaskText(task)}`)?.blockId;
+    return blockId ? `${path}#^${blockId}` : path;
+}
+
+/**
+ * Open the note of a task scrolled to its line, with the line selected
+ */
+export async function openTaskSource<F>(app: NavigationApp<F>, task: TaskLike, paneType: SourcePaneType = false): Promise<void> {
+    const path = getTaskPath(task);
+    const file = app.vault.getAbstractFileByPath(path) as F | null;
+    if (!file) throw new Error(`${path} no longer exists`);
+
+    const anchor = getTaskAnchor(task);
+    const selection = anchor ? getSourceSelection(await app.vault.cachedRead(file), anchor) : null;
+    await app.workspace.getLeaf(paneType).openFile(file, {
+        active: true,
+        ...(selection ? { eState: { line: selection.line, cursor: { from: selection.from, to: selection.to } } } : {})
+    });
+}
+
+/**
+ * Ask the Page preview plugin for a preview of the task's surroundings
+ */
+export function triggerTaskHover(
+    workspace: { trigger(name: string, ...data: unknown[]): void },
+    event: MouseEvent,
+    task: TaskLike,
+    hoverParent: unknown,
+    source: string = HOVER_SOURCE_ID
+): void {
+    workspace.trigger('hover-link', {
+        event,
+        source,
+        hoverParent,
+        targetEl: event.currentTarget ?? event.target,
+        linktext: getTaskLinkText(task),
+        sourcePath: '',
+        state: { scroll: getTaskLineNumber(task) ?? 0 }
+    });
+}
@@ -0,0 +1,115 @@
+/**
+ * TaskScope - Restrict a board to the tasks around a note
+ *
+ * Embedded boards can show every task in the vault, or only the tasks related
+ * to the note they are embedded in: the note itself, its folder subtree, the
+ * notes it links to or is linked from, or tasks whose `project` field points
+ * at it.
+ */
+
+import { getTaskField, getTaskFolder, getTaskPath, TaskLike } from './TaskFields';
+
+export type TaskScopeMode = 'vault' | 'file' | 'folder' | 'links' | 'project';
+
+export interface ScopeContext {
+    /** Path of the note the board is embedded in */
+    path: string | null | undefined;
+    /** Paths of notes linking to or linked from that note (for 'links') */
+    linkedPaths?: ReadonlySet<string> | undefined;
+}
+
+/** Inline field naming the project note of a task */
+export const PROJECT_FIELD = 'project';
+
+/**
+ * Keep the tasks inside the scope; tasks are returned unfiltered when there
+ * is no current note to scope to
+ */
+export function filterTasksByScope<T extends TaskLike>(tasks: T[], scope: TaskScopeMode, context: ScopeContext): T[] {
+    const currentPath = context.path;
+    if (scope === 'vault' || !currentPath) return tasks;
+
+    switch (scope) {
+        case 'file':
+            return tasks.filter(task => getTaskPath(task) === currentPath);
+        case 'folder': {
+            const folder = getParentFolder(currentPath);
+            return tasks.filter(task => isInFolder(getTaskFolder(task), folder));
+        }
+        case 'links': {
+            const linked = context.linkedPaths ?? new Set<string>();
+            return tasks.filter(task => linked.has(getTaskPath(task)));
+        }
+        case 'project':
+            return tasks.filter(task => isProjectOf(getTaskField(task, PROJECT_FIELD), currentPath));
+        default:
+            return tasks;
+    }
+}
+
+/**
+ * Collect the notes linking to or linked from a note, from Obsidian's
+ * `metadataCache.resolvedLinks` (source path -> target path -> count)
+ */
+export function getLinkedPaths(resolvedLinks: Record<string, Record<string, number>>, path: string): Set<string> {
+    const linked = new Set(Object.keys(resolvedLinks[path] ?? {}));
+    for (const [source, targets] of Object.entries(resolvedLinks)) {
+        if (targets[path]) linked.add(source);
+    }
+    linked.delete(path);
+    return linked;
+}
+
+/**
+ * Describe a scope for the board header badge
+ */
+export function getScopeLabel(scope: TaskScopeMode, path: string | null | undefined): string {
+    const name = path ? getNoteName(path) : '';
+    switch (scope) {
+        case 'file':
+            return `📄 ${name}`;
+        case 'folder':
+            return `📁 ${path ? getParentFolder(path) || '/' : ''}`;
+        case 'links':
+            return `🔗 Linked with ${name}`;
+        case 'project':
+            return `🎯 Project: ${name}`;
+        default:
+            return '🗄️ Vault';
+    }
+}
+
+/**
+ * Get the folder of a vault path ('' for the vault root)
+ */
+export function getParentFolder(path: string): string {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash);
+}
+
+// Whether a folder is the given folder or one of its subfolders
+function isInFolder(folder: string, parent: string): boolean {
+    return parent === '' || folder === parent || folder.startsWith(`${parent}/`);
+}
+
+// Whether a project field value (a Datacore link, `[[wikilink]]`, path or note name) refers to a note
+function isProjectOf(value: unknown, notePath: string): boolean {
+    if (Array.isArray(value)) return value.some(item => isProjectOf(item, notePath));
+    if (value && typeof value === 'object' && 'path' in value) {
+        return (value as { path: unknown }).path === notePath;
+    }
+    if (typeof value !== 'string') return false;
+
+    const target = value.trim().replace(/^\[\[|\]\]$/g, '').split('|')[0]?.split('#')[0]?.trim() ?? '';
+    if (!target) return false;
+
+    const normalized = target.toLowerCase();
+    const path = notePath.toLowerCase();
+    return normalized === path
+        || `${normalized}.md` === path
+        || normalized === getNoteName(notePath).toLowerCase();
+}
+
+function getNoteName(path: string): string {
+    return (path.split('/').pop() ?? path).replace(/\.md$/, '');
+}
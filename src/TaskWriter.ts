@@ -0,0 +1,84 @@
+/**
+ * TaskWriter - The single write path for task mutations
+ *
+ * Every edit transforms the file content inside `vault.process`, so nothing
+ * the editor saves between a read and a write is lost, and writes to the same
+ * file are queued so concurrent moves apply one after the other. An edit that
+ * cannot find its task throws, which rejects the write without touching the
+ * file; callers report that back to the board. Vault failures with a known
+ * cause (a deleted or read-only note) are rethrown as TaskWriteErrors.
+ */
+
+import { requireTaskLine, TaskAnchor } from './TaskLocator';
+import { classifyWriteError } from './TaskErrors';
+
+/** The part of Obsidian's Vault used for writes */
+export interface ProcessVault<F extends { path: string }> {
+    process(file: F, fn: (data: string) => string): Promise<string>;
+}
+
+export class TaskWriter<F extends { path: string } = { path: string }> {
+    private queues = new Map<string, Promise<void>>();
+
+    constructor(private vault: ProcessVault<F>) {}
+
+    /**
+     * Transform a file's content atomically, after any queued writes to the
+     * same file; resolves to whether the content changed
+     */
+    editFile(file: F, edit: (content: string) => string): Promise<boolean> {
+        return this.enqueue(file.path, async () => {
+            let changed = false;
+            try {
+                await this.vault.process(file, content => {
+                    const updated = edit(content);
+                    changed = updated !== content;
+                    return updated;
+                });
+            } catch (error) {
+                throw classifyWriteError(error, file.path);
+            }
+            return changed;
+        });
+    }
+
+    /**
+     * Edit the current line of an anchored task; rejects, leaving the file
+     * unchanged, if the task cannot be found
+     */
+    editTaskLine(file: F, anchor: TaskAnchor, edit: (line: string) => string): Promise<boolean> {
+        return this.editFile(file, content => {
+            const lines = content.split('\n');
+            const index = requireTaskLine(lines, anchor);
+            lines[index] = edit(lines[index] ?? '');
+            return lines.join('\n');
+        });
+    }
+
+    // Run a job once the previous job on the same path settled
+    private enqueue<T>(path: string, job: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(path) ?? Promise.resolve();
+        const result = previous.then(job);
+        const settled = result.then(() => undefined, () => undefined);
+        this.queues.set(path, settled);
+        settled.then(() => {
+            if (this.queues.get(path) === settled) this.queues.delete(path);
+        });
+        return result;
+    }
+}
+
+const writers = new WeakMap<object, unknown>();
+
+/**
+ * Get the writer shared by every board on a vault, so the plugin view and
+ * embedded boards queue on the same files
+ */
+export function getTaskWriter<F extends { path: string }>(vault: ProcessVault<F>): TaskWriter<F> {
+    let writer = writers.get(vault) as TaskWriter<F> | undefined;
+    if (!writer) {
+        writer = new TaskWriter(vault);
+        writers.set(vault, writer);
+    }
+    return writer;
+}
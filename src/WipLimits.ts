@@ -0,0 +1,56 @@
+/**
+ * WipLimits - Work-in-progress limits for kanban columns
+ *
+ * In 'warn' mode an over-limit column is only highlighted; in 'block' mode
+ * moves into a column that is already at its limit are refused.
+ */
+
+export type WipMode = 'warn' | 'block';
+
+export interface ColumnWipSettings {
+    name: string;
+    wipLimit?: number;
+    wipMode?: WipMode;
+}
+
+export interface WipState {
+    count: number;
+    limit: number | null;
+    mode: WipMode;
+    exceeded: boolean;
+}
+
+/**
+ * Get the WIP state of a column holding `count` tasks
+ */
+export function getWipState(column: ColumnWipSettings, count: number): WipState {
+    const limit = hasWipLimit(column) ? column.wipLimit : null;
+    return {
+        count,
+        limit,
+        mode: column.wipMode ?? 'warn',
+        exceeded: limit !== null && count > limit
+    };
+}
+
+/**
+ * Format a column count for the header, e.g. `3 / 5`
+ */
+export function formatWipCount(state: WipState): string {
+    return state.limit === null ? String(state.count) : `${state.count} / ${state.limit}`;
+}
+
+/**
+ * Get the reason a task can't be dropped into a column, or null if allowed
+ */
+export function getWipDropError(column: ColumnWipSettings, count: number): string | null {
+    const state = getWipState(column, count);
+    if (state.mode !== 'block' || state.limit === null || count < state.limit) {
+        return null;
+    }
+    return `"${column.name}" is at its WIP limit (${state.limit}). Finish or move a task out before adding another.`;
+}
+
+function hasWipLimit(column: ColumnWipSettings): column is ColumnWipSettings & { wipLimit: number } {
+    return typeof column.wipLimit === 'number' && column.wipLimit > 0;
+}
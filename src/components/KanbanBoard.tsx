@@ -5,18 +5,93 @@
  * Converted: React hooks with Datacore integration, performance optimizations
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type { KanbanSettings, KanbanColumn } from '../Settings';
 import type { TaskItem } from '../DatacoreSync';
+import { canRewriteLane, getLaneKey, groupTasksByLane, isSwimlaneEnabled } from '../Swimlanes';
+import { formatWipCount, getWipDropError, getWipState } from '../WipLimits';
+import { canWriteRule, createRuleContext, getColumnRule } from '../ColumnRules';
+import { DEFAULT_UNSORTED_POLICY, groupTasksByColumn, isVirtualColumn, resolveTaskColumn } from '../TaskGrouping';
+import { formatSortKeys, getDropPosition, isManuallyOrdered, resolveSortKeys, SortOptions, sortColumnTasks } from '../CardOrdering';
+import { groupColumnTasks, isColumnGroupingEnabled } from '../ColumnSections';
+import { BulkAction, isArchivedTask } from '../BulkActions';
+import type { TaskPriorityName } from '../TaskLine';
+import { TASK_DATE_LABELS, TaskDateField, TaskEdit, validateTaskEdit } from '../TaskEdits';
+import { getTaskDueDate, getTaskScheduledDate, getTaskStartDate } from '../TaskFields';
+import { getSourcePaneType, SourcePaneType } from '../TaskNavigation';
+import { formatTaskError, isRetryableError } from '../TaskErrors';
+import { isSameTaskList } from '../BoardRefresh';
+import {
+    acknowledgeWrite,
+    CardPlacement,
+    collectPlacements,
+    PendingWrite,
+    placeColumnTasks,
+    placeLaneTasks,
+    reconcileWrites,
+    WriteRevision
+} from '../OptimisticUpdates';
+import {
+    ARROW_MOVES,
+    BoardCommand,
+    BoardFocus,
+    findCell,
+    FocusMove,
+    getCellKey,
+    KeyboardCell,
+    KeyboardGrab,
+    moveBoardFocus,
+    moveDropTarget,
+    resolveBoardFocus
+} from '../BoardKeyboard';
+import {
+    DRAG_HOLD_MS,
+    EDGE_FLIP_MS,
+    getAutoScrollDelta,
+    getSwipeStep,
+    hasMoved,
+    LONG_PRESS_MS,
+    PointerPoint
+} from '../PointerDrag';
+
+// Board switcher entry
+interface BoardOption {
+    id: string;
+    name: string;
+}
 
 // Component Props Interface
 interface KanbanBoardProps {
     settings: KanbanSettings;
-    onTaskMove?: (taskId: string, newTag: string) => Promise<void>;
-    onRefresh?: () => void;
+    boards?: BoardOption[];
+    activeBoardId?: string;
+    onBoardChange?: (boardId: string) => void;
+    // Writes resolve once Datacore has indexed them
+    onTaskMove?: (taskId: string, targetColumn: KanbanColumn, laneKey?: string) => Promise<WriteRevision>;
+    onTaskReorder?: (taskIds: string[], column: KanbanColumn, orderedTaskIds: string[], targetIndex: number) => Promise<WriteRevision>;
+    onBulkAction?: (taskIds: string[], action: BulkAction) => Promise<WriteRevision>;
+    onTaskEdit?: (taskId: string, edit: TaskEdit) => Promise<WriteRevision>;
+    onQuickAdd?: (column: KanbanColumn, text: string, laneKey?: string) => Promise<WriteRevision>;
+    onOpenTask?: (task: TaskItem, paneType: SourcePaneType) => Promise<void>;
+    onHoverTask?: (task: TaskItem, event: MouseEvent) => void;
+    // Receives the card counts per column shown on the board, for the menu's WIP checks
+    onTaskMenu?: (task: TaskItem, event: MouseEvent, columnCounts: Readonly<Record<string, number>>) => void;
+    getUrgencyScore?: (task: TaskItem) => number;
+    onRefresh?: () => Promise<void>;
+    // Show one column at a time, switched by swiping (the mobile layout)
+    singleColumn?: boolean;
+    // Filled with the handler of the keyboard commands while the board is mounted
+    commandRef?: React.MutableRefObject<((command: BoardCommand, checking: boolean) => boolean) | null>;
     className?: string;
 }
 
+// The board below the Datacore subscription, with the query result and the moves still being written
+interface KanbanBoardContentProps extends KanbanBoardProps {
+    queriedTasks: TaskItem[] | undefined;
+    placements: ReadonlyMap<string, CardPlacement>;
+    writeOptimistically: (placed: Map<string, CardPlacement>, write: () => Promise<WriteRevision>) => Promise<void>;
+}
+
 // Column Statistics Interface
 interface ColumnStats {
     [columnId: string]: number;
@@ -27,6 +102,157 @@ interface TasksByColumn {
     [columnId: string]: TaskItem[];
 }
 
+// Priorities offered by the bulk action and the card editor
+const PRIORITY_OPTIONS: TaskPriorityName[] = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+// Date fields editable on a card, with their readers
+const EDITABLE_DATES: { field: TaskDateField; get: (task: TaskItem) => string | null }[] = [
+    { field: 'due', get: getTaskDueDate },
+    { field: 'scheduled', get: getTaskScheduledDate },
+    { field: 'start', get: getTaskStartDate }
+];
+
+// Cards of a column in the order they are shown, section by section when grouped
+function getDisplayedTasks(column: KanbanColumn, tasks: TaskItem[]): TaskItem[] {
+    if (!isColumnGroupingEnabled(column.groupBy)) return tasks;
+    return groupColumnTasks(tasks, column.groupBy).flatMap(section => section.tasks);
+}
+
+// Inline editor of a card; each field is written as soon as it is committed
+function TaskEditor({ task, error, onEdit, onDone }: {
+    task: TaskItem;
+    error: string | null;
+    onEdit: (edit: TaskEdit) => void;
+    onDone: () => void;
+}) {
+    const commitText = (value: string) => {
+        if (value.trim() !== task.text.trim()) onEdit({ type: 'text', text: value });
+    };
+    
+    return (
+        <div className="task-editor">
+            <input
+                className="task-edit-text"
+                type="text"
+                defaultValue={task.text}
+                autoFocus
+                aria-label="Task text"
+                onBlur={(e) => commitText(e.currentTarget.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitText(e.currentTarget.value);
+                    if (e.key === 'Escape') onDone();
+                }}
+            />
+            
+            <div className="task-edit-dates">
+                {EDITABLE_DATES.map(({ field, get }) => (
+                    <label key={field} className="task-edit-date">
+                        <span>{TASK_DATE_LABELS[field]}</span>
+                        <input
+                            type="date"
+                            defaultValue={get(task) ?? ''}
+                            onChange={(e) => onEdit({ type: 'date', field, date: e.currentTarget.value || null })}
+                        />
+                    </label>
+                ))}
+            </div>
+            
+            <select
+                className="dropdown task-edit-priority"
+                defaultValue={task.priority && PRIORITY_OPTIONS.includes(task.priority as TaskPriorityName) ? task.priority : ''}
+                onChange={(e) => onEdit({
+                    type: 'priority',
+                    priority: (e.currentTarget.value || null) as TaskPriorityName | null
+                })}
+                aria-label="Priority"
+            >
+                <option value="">No priority</option>
+                {PRIORITY_OPTIONS.map(priority => (
+                    <option key={priority} value={priority}>{priority}</option>
+                ))}
+            </select>
+            
+            <div className="task-tags task-edit-tags">
+                {task.tags.map(tag => (
+                    <span key={tag} className="task-tag is-removable">
+                        {tag}
+                        <button
+                            className="task-tag-remove"
+                            onClick={() => onEdit({ type: 'remove-tag', tag })}
+                            aria-label={`Remove ${tag}`}
+                        >
+                            ×
+                        </button>
+                    </span>
+                ))}
+                <input
+                    className="task-edit-add-tag"
+                    type="text"
+                    placeholder="Add tag"
+                    aria-label="Add tag"
+                    onKeyDown={(e) => {
+                        const value = e.currentTarget.value;
+                        if (e.key === 'Enter' && value.trim()) {
+                            onEdit({ type: 'add-tag', tag: value });
+                            e.currentTarget.value = '';
+                        }
+                    }}
+                />
+            </div>
+            
+            {error && (
+                <div className="task-edit-error" role="alert">{error}</div>
+            )}
+            
+            <button className="task-edit-done" onClick={onDone}>Done</button>
+        </div>
+    );
+}
+
+// How long a plain card click waits for a second click before opening the card's note
+const CARD_OPEN_DELAY = 250;
+
+// Drop feedback drawn on the board during a mouse drag
+const DRAG_FEEDBACK_CLASSES = ['is-drag-source', 'is-drop-before', 'is-drop-after', 'kanban-drop-zone-active', 'kanban-drop-invalid'];
+
+// Touch press on a card, from pointer down until it ends as a drag, a long press or a scroll
+interface PointerGesture {
+    pointerId: number;
+    taskId: string;
+    cellKey: string;
+    start: PointerPoint;
+    point: PointerPoint;
+    armed: boolean;
+    dragging: boolean;
+    targetCell: string | null;
+    // When the pointer reached a screen edge, in the one-column layout
+    edgeSince: number | null;
+    timers: number[];
+    frame: number | null;
+    removeListeners: () => void;
+}
+
+// Stop a gesture's timers, auto-scroll and window listeners
+function releaseGesture(gesture: PointerGesture): void {
+    gesture.timers.forEach(timer => window.clearTimeout(timer));
+    if (gesture.frame !== null) cancelAnimationFrame(gesture.frame);
+    gesture.removeListeners();
+}
+
+// Failure shown above the board, with a retry when trying again can help
+interface BoardError {
+    message: string;
+    retry?: (() => void) | undefined;
+}
+
+// Swimlane row with its own column grouping
+interface LaneGroup {
+    key: string;
+    label: string;
+    taskCount: number;
+    tasksByColumn: TasksByColumn;
+}
+
 /**
  * Modern Datacore-optimized Kanban Board Component
  * 
@@ -36,128 +262,936 @@ interface TasksByColumn {
  * - Performance optimizations with memoization
  * - Responsive design with accessibility
  */
-return function KanbanBoard({ settings, onTaskMove, onRefresh, className }: KanbanBoardProps) {
-    // Datacore query for live task updates
-    const allTasks = dc.useQuery(settings.datacoreQuery || '@task');
+function KanbanBoardContent({ settings, boards, activeBoardId, onBoardChange, onTaskMove, onTaskReorder, onBulkAction, onTaskEdit, onQuickAdd, onOpenTask, onHoverTask, onTaskMenu, getUrgencyScore, onRefresh, singleColumn, commandRef, className, queriedTasks, placements, writeOptimistically }: KanbanBoardContentProps) {
+    // Tasks of the board's query, without archived tasks
+    const allTasks = dc.useMemo(
+        () => queriedTasks && queriedTasks.filter((task: TaskItem) => !isArchivedTask(task)),
+        [queriedTasks]
+    );
     
     // Local state for UI interactions
-    const [draggedTask, setDraggedTask] = useState<string | null>(null);
+    // Card dragged with the mouse and how often the pointer entered each cell;
+    // refs, since re-rendering mid-drag would replace the elements being dragged over
+    const draggedTask = useRef<string | null>(null);
+    const dragEnterCounts = useRef(new Map<string, number>());
     const [isRefreshing, setIsRefreshing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<BoardError | null>(null);
+    // Multi-selected cards, and the card a shift-click range starts from
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+    const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+    const [bulkTag, setBulkTag] = useState('');
+    const [bulkDueDate, setBulkDueDate] = useState('');
+    // Card being edited inline, and the error shown on it
+    const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+    const [editError, setEditError] = useState<string | null>(null);
+    // Column (and lane) whose quick-add input is open, its error and the text typed so far
+    const [quickAddKey, setQuickAddKey] = useState<string | null>(null);
+    const [quickAddError, setQuickAddError] = useState<string | null>(null);
+    const quickAddDraft = useRef('');
+    const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(
+        () => new Set(settings.swimlanes?.collapsed ?? [])
+    );
+    // Keyboard focus (roving tabindex), the card picked up with the keyboard and
+    // the last announcement read by screen readers
+    const [focus, setFocus] = useState<BoardFocus | null>(null);
+    const [grab, setGrab] = useState<KeyboardGrab | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    // Whether the keyboard is in use, so focus is restored after cards re-render
+    const keyboardActive = useRef(false);
+    const boardRef = useRef<HTMLDivElement>(null);
+    // Card dragged by touch and the cell under it, the card whose "Move to…"
+    // sheet is open, and the column shown in the one-column layout
+    const [pointerDrag, setPointerDrag] = useState<{ taskId: string; targetCell: string | null } | null>(null);
+    const [moveSheetTaskId, setMoveSheetTaskId] = useState<string | null>(null);
+    const [visibleColumn, setVisibleColumn] = useState(0);
+    const pointerGesture = useRef<PointerGesture | null>(null);
+    const dragGhost = useRef<HTMLDivElement>(null);
+    const swipeStart = useRef<PointerPoint | null>(null);
+    // Swallows the click that follows a touch drag or long press
+    const suppressClick = useRef(false);
 
-    // Memoized task grouping by columns
-    const tasksByColumn = dc.useMemo(() => {
-        const grouped: TasksByColumn = {};
-        
-        // Initialize all columns
-        settings.columns.forEach(column => {
-            grouped[column.id] = [];
-        });
-        
-        // Group tasks by matching column tags
-        allTasks.forEach((task: TaskItem) => {
-            const matchingColumn = getColumnForTask(task, settings.columns);
-            if (matchingColumn) {
-                grouped[matchingColumn.id].push(task);
-            }
+    // Status tags and today's date used by column rules
+    const ruleContext = dc.useMemo(() => createRuleContext(settings.columns), [settings.columns]);
+
+    // Where tasks matching no column end up
+    const unsortedPolicy = settings.unsortedPolicy ?? DEFAULT_UNSORTED_POLICY;
+
+    // Urgency scorer for "urgency" sort keys, when the Tasks plugin provides one
+    const sortOptions: SortOptions = dc.useMemo(() => getUrgencyScore ? { getUrgencyScore } : {}, [getUrgencyScore]);
+
+    // Get column for task based on its tag or column rule (null if hidden)
+    const getColumnForTask = useCallback((task: TaskItem, columns: KanbanColumn[]): KanbanColumn | null => {
+        return resolveTaskColumn(task, columns, unsortedPolicy, ruleContext);
+    }, [unsortedPolicy, ruleContext]);
+
+    // Group a set of tasks into columns (shared with the embedded view) and sort each column
+    const groupByColumn = useCallback((tasks: TaskItem[]) => {
+        const groups = groupTasksByColumn<TaskItem, KanbanColumn>(tasks, settings.columns, unsortedPolicy, ruleContext);
+        groups.columns.forEach(column => {
+            groups.tasksByColumn[column.id] = sortColumnTasks(
+                groups.tasksByColumn[column.id] || [],
+                resolveSortKeys(column),
+                sortOptions
+            );
         });
-        
-        return grouped;
-    }, [allTasks, settings.columns]);
+        return groups;
+    }, [settings.columns, unsortedPolicy, ruleContext, sortOptions]);
+
+    // Sort the cards placed into a column by a pending write
+    const sortPlaced = useCallback((columnId: string, tasks: TaskItem[]): TaskItem[] => {
+        const column = settings.columns.find((c: KanbanColumn) => c.id === columnId);
+        return column ? sortColumnTasks(tasks, resolveSortKeys(column), sortOptions) : tasks;
+    }, [settings.columns, sortOptions]);
+
+    // Memoized task grouping by columns, with pending moves applied
+    const taskGroups = dc.useMemo(() => {
+        const groups = groupByColumn(allTasks);
+        return { ...groups, tasksByColumn: placeColumnTasks(groups.tasksByColumn, placements, sortPlaced) };
+    }, [allTasks, groupByColumn, placements, sortPlaced]);
+    const tasksByColumn: TasksByColumn = taskGroups.tasksByColumn;
+    const boardColumns: KanbanColumn[] = taskGroups.columns;
+
+    // Memoized swimlane rows, each holding the full set of columns
+    const lanes = dc.useMemo((): LaneGroup[] => {
+        if (!isSwimlaneEnabled(settings.swimlanes)) return [];
+        return placeLaneTasks(groupTasksByLane(allTasks, settings.swimlanes), placements).map(lane => ({
+            key: lane.key,
+            label: lane.label,
+            taskCount: lane.tasks.length,
+            tasksByColumn: placeColumnTasks(groupByColumn(lane.tasks).tasksByColumn, placements, sortPlaced)
+        }));
+    }, [allTasks, settings.swimlanes, groupByColumn, placements, sortPlaced]);
 
     // Memoized column statistics
     const columnStats = dc.useMemo((): ColumnStats => {
         const stats: ColumnStats = {};
-        settings.columns.forEach(column => {
+        boardColumns.forEach(column => {
             stats[column.id] = tasksByColumn[column.id]?.length || 0;
         });
         return stats;
-    }, [tasksByColumn, settings.columns]);
+    }, [tasksByColumn, boardColumns]);
 
-    // Get column for task based on tags
-    const getColumnForTask = useCallback((task: TaskItem, columns: KanbanColumn[]): KanbanColumn | null => {
-        for (const column of columns) {
-            if (task.tags.includes(column.tag)) {
-                return column;
+    // Columns that can receive cards
+    const writableColumns = dc.useMemo(
+        () => boardColumns.filter(column => !isVirtualColumn(column) && canWriteRule(getColumnRule(column))),
+        [boardColumns]
+    );
+
+    // Columns on screen: all of them, or the one swiped to in the one-column layout
+    const columnIndex = Math.min(visibleColumn, Math.max(boardColumns.length - 1, 0));
+    const displayedColumns = dc.useMemo(
+        () => singleColumn ? boardColumns.slice(columnIndex, columnIndex + 1) : boardColumns,
+        [singleColumn, boardColumns, columnIndex]
+    );
+
+    // Keyboard grid: a row per expanded swimlane (or the board), a cell per column on screen
+    const keyboardRows = dc.useMemo((): KeyboardCell[][] => {
+        const toCell = (column: KanbanColumn, tasks: TaskItem[], laneKey?: string): KeyboardCell => ({
+            key: getCellKey(column.id, laneKey),
+            columnId: column.id,
+            laneKey,
+            taskIds: getDisplayedTasks(column, tasks).map(task => task.id)
+        });
+        if (lanes.length === 0) {
+            return [displayedColumns.map(column => toCell(column, tasksByColumn[column.id] || []))];
+        }
+        return lanes
+            .filter(lane => !collapsedLanes.has(lane.key))
+            .map(lane => displayedColumns.map(column => toCell(column, lane.tasksByColumn[column.id] || [], lane.key)));
+    }, [lanes, collapsedLanes, displayedColumns, tasksByColumn]);
+    const activeFocus = resolveBoardFocus(keyboardRows, focus);
+
+    // Shift-click selects a range within the column, Ctrl/Cmd-click toggles a card
+    const handleCardClick = useCallback((e: React.MouseEvent, task: TaskItem, columnTasks: TaskItem[]) => {
+        if (e.shiftKey && selectionAnchor) {
+            const from = columnTasks.findIndex(t => t.id === selectionAnchor);
+            const to = columnTasks.findIndex(t => t.id === task.id);
+            if (from !== -1 && to !== -1) {
+                const range = columnTasks.slice(Math.min(from, to), Math.max(from, to) + 1);
+                setSelectedIds(prev => new Set([...prev, ...range.map(t => t.id)]));
+                return;
             }
         }
-        // Default to first column if no tag matches
-        return columns[0] || null;
+        
+        if (e.shiftKey || e.ctrlKey || e.metaKey) {
+            setSelectedIds(prev => {
+                const next = new Set(prev);
+                if (next.has(task.id)) {
+                    next.delete(task.id);
+                } else {
+                    next.add(task.id);
+                }
+                return next;
+            });
+            setSelectionAnchor(task.id);
+            return;
+        }
+        
+        setSelectedIds(new Set());
+        setSelectionAnchor(null);
+    }, [selectionAnchor]);
+
+    const clearSelection = useCallback(() => {
+        setSelectedIds(new Set());
+        setSelectionAnchor(null);
+    }, []);
+
+    // Run a write, showing a failure above the board with the note and line
+    // it was after, and a retry that runs it again when that can help
+    const runWrite = useCallback((label: string, write: () => Promise<unknown>): Promise<boolean> => {
+        const attempt = async (): Promise<boolean> => {
+            try {
+                await write();
+                setError(null);
+                return true;
+            } catch (err) {
+                console.error(`${label}:`, err);
+                setError({
+                    message: `${label}: ${formatTaskError(err)}`,
+                    retry: isRetryableError(err) ? () => { attempt(); } : undefined
+                });
+                return false;
+            }
+        };
+        return attempt();
     }, []);
 
-    // Handle task drag start
+    // Apply a bulk action to the selection; resolves to whether it was written
+    const runBulkAction = useCallback(async (action: BulkAction, taskIds: string[] = [...selectedIds]): Promise<boolean> => {
+        if (!onBulkAction || taskIds.length === 0) return false;
+        // Tags are checked as in the inline tag editor before anything is written
+        const invalid = action.type === 'add-tag' || action.type === 'remove-tag' ? validateTaskEdit(action) : null;
+        if (invalid) {
+            setError({ message: invalid });
+            return false;
+        }
+        const written = await runWrite(`Failed to update ${taskIds.length} tasks`, () => {
+            if (action.type !== 'move') return onBulkAction(taskIds, action);
+            const placement: CardPlacement = { columnId: action.columnId, laneKey: action.laneKey };
+            return writeOptimistically(new Map(taskIds.map(id => [id, placement])), () => onBulkAction(taskIds, action));
+        });
+        if (written) clearSelection();
+        return written;
+    }, [onBulkAction, selectedIds, clearSelection, runWrite, writeOptimistically]);
+
+    // Start or stop editing a card inline
+    const startEditing = useCallback((taskId: string) => {
+        setEditingTaskId(taskId);
+        setEditError(null);
+    }, []);
+
+    const stopEditing = useCallback(() => {
+        setEditingTaskId(null);
+        setEditError(null);
+    }, []);
+
+    // Validate and write an inline edit, keeping the error on the card
+    const handleTaskEdit = useCallback(async (task: TaskItem, edit: TaskEdit) => {
+        if (!onTaskEdit) return;
+        const invalid = validateTaskEdit(edit);
+        if (invalid) {
+            setEditError(invalid);
+            return;
+        }
+        try {
+            await onTaskEdit(task.id, edit);
+            setEditError(null);
+        } catch (err) {
+            setEditError(err.message);
+            console.error('Failed to edit task:', err);
+        }
+    }, [onTaskEdit]);
+
+    // Open or close the quick-add input of a column
+    const toggleQuickAdd = useCallback((key: string) => {
+        setQuickAddKey(prev => prev === key ? null : key);
+        setQuickAddError(null);
+        quickAddDraft.current = '';
+    }, []);
+
+    // Create a task from the quick-add input, keeping the input open for the next one
+    const handleQuickAdd = useCallback(async (column: KanbanColumn, text: string, laneKey?: string): Promise<boolean> => {
+        if (!onQuickAdd || !text.trim()) return false;
+        try {
+            await onQuickAdd(column, text, laneKey);
+            quickAddDraft.current = '';
+            setQuickAddError(null);
+            return true;
+        } catch (err) {
+            setQuickAddError(err.message);
+            console.error('Failed to add task:', err);
+            return false;
+        }
+    }, [onQuickAdd]);
+
+    // Open a card's source line; Mod-click opens a tab, Mod+Alt-click a split
+    const openTaskIn = useCallback((task: TaskItem, paneType: SourcePaneType) => {
+        onOpenTask?.(task, paneType).catch(err => {
+            setError({ message: `Couldn't open ${task.file.basename}: ${err.message}` });
+            console.error('Failed to open task:', err);
+        });
+    }, [onOpenTask]);
+
+    const openTask = useCallback((e: React.MouseEvent | React.KeyboardEvent, task: TaskItem) => {
+        if (!onOpenTask) return;
+        e.preventDefault();
+        e.stopPropagation();
+        openTaskIn(task, getSourcePaneType(e));
+    }, [onOpenTask, openTaskIn]);
+
+    // A plain click on a card opens its note once it is clear the click doesn't
+    // start a double-click, which edits the card instead
+    const pendingOpen = useRef<number | null>(null);
+    const cancelCardOpen = useCallback(() => {
+        if (pendingOpen.current !== null) window.clearTimeout(pendingOpen.current);
+        pendingOpen.current = null;
+    }, []);
+    const handleCardOpen = useCallback((e: React.MouseEvent, task: TaskItem) => {
+        cancelCardOpen();
+        if (!onOpenTask || e.detail !== 1 || e.shiftKey || e.ctrlKey || e.metaKey || e.altKey) return;
+        pendingOpen.current = window.setTimeout(() => {
+            pendingOpen.current = null;
+            openTaskIn(task, false);
+        }, CARD_OPEN_DELAY);
+    }, [onOpenTask, openTaskIn, cancelCardOpen]);
+    useEffect(() => cancelCardOpen, [cancelCardOpen]);
+
+    // Handle task drag start; the card stays in its column as a placeholder
     const handleDragStart = useCallback((e: React.DragEvent, taskId: string) => {
-        setDraggedTask(taskId);
+        draggedTask.current = taskId;
         e.dataTransfer.setData('text/plain', taskId);
         e.dataTransfer.effectAllowed = 'move';
+        e.currentTarget.classList.add('is-drag-source');
     }, []);
 
-    // Handle drag over column
-    const handleDragOver = useCallback((e: React.DragEvent) => {
-        e.preventDefault();
-        e.dataTransfer.dropEffect = 'move';
+    // Remove the feedback of a mouse drag once it ends
+    const clearDragFeedback = useCallback(() => {
+        draggedTask.current = null;
+        dragEnterCounts.current.clear();
+        boardRef.current?.querySelectorAll<HTMLElement>(DRAG_FEEDBACK_CLASSES.map(name => `.${name}`).join(', ')).forEach(element => {
+            element.classList.remove(...DRAG_FEEDBACK_CLASSES);
+            delete element.dataset.dropError;
+        });
+    }, []);
+
+    // Get the insertion index of a drop from the card under the pointer
+    const getDropIndex = useCallback((target: EventTarget | null, clientY: number, columnTasks: TaskItem[]): number => {
+        const card = target instanceof Element ? target.closest<HTMLElement>('.kanban-task-card') : null;
+        if (!card?.dataset.taskIndex) return columnTasks.length;
+        
+        const index = Number(card.dataset.taskIndex);
+        const rect = card.getBoundingClientRect();
+        return clientY > rect.top + rect.height / 2 ? index + 1 : index;
     }, []);
 
-    // Handle task drop on column
-    const handleDrop = useCallback(async (e: React.DragEvent, targetColumn: KanbanColumn) => {
+    // Reorder a card within its column; a selected card takes the column's
+    // other selected cards along as a block, kept in their current order
+    const handleReorder = useCallback(async (taskId: string, column: KanbanColumn, columnTasks: TaskItem[], dropIndex: number) => {
+        if (isVirtualColumn(column) || !onTaskReorder) return;
+        
+        if (!isManuallyOrdered(column)) {
+            setError({ message: `"${column.name}" is sorted by ${formatSortKeys(column)}; switch it to manual order to rearrange cards` });
+            return;
+        }
+        
+        const orderedTaskIds = columnTasks.map(t => t.id);
+        const movingIds = selectedIds.has(taskId) && selectedIds.size > 1
+            ? orderedTaskIds.filter(id => selectedIds.has(id))
+            : [taskId];
+        
+        // Convert the drop position into an index among the other cards
+        const others = orderedTaskIds.filter(id => !movingIds.includes(id));
+        const targetIndex = orderedTaskIds.slice(0, dropIndex).filter(id => !movingIds.includes(id)).length;
+        const reordered = [...others.slice(0, targetIndex), ...movingIds, ...others.slice(targetIndex)];
+        if (reordered.every((id, i) => id === orderedTaskIds[i])) return;
+        
+        // Place the first card before the card following the block and each other one behind the card before it
+        const placed = new Map<string, CardPlacement>();
+        let current = orderedTaskIds;
+        movingIds.forEach((id, i) => {
+            const rest = current.filter(other => other !== id);
+            const following = others[targetIndex];
+            const index = i > 0 ? rest.indexOf(movingIds[i - 1] ?? '') + 1 : following === undefined ? rest.length : rest.indexOf(following);
+            placed.set(id, { columnId: column.id, index });
+            current = [...rest.slice(0, index), id, ...rest.slice(index)];
+        });
+        const label = movingIds.length > 1 ? 'Failed to reorder tasks' : 'Failed to reorder task';
+        await runWrite(label, () => writeOptimistically(placed, () => onTaskReorder(movingIds, column, orderedTaskIds, targetIndex)));
+    }, [onTaskReorder, selectedIds, runWrite, writeOptimistically]);
+
+    // Whether dropping a task into a column (and lane) rearranges it within its own
+    const isReorderDrop = useCallback((task: TaskItem | undefined, targetColumn: KanbanColumn, laneKey?: string): boolean => {
+        if (!task || getColumnForTask(task, settings.columns)?.id !== targetColumn.id) return false;
+        const swimlanes = settings.swimlanes;
+        return laneKey === undefined || !isSwimlaneEnabled(swimlanes) || getLaneKey(task, swimlanes) === laneKey;
+    }, [settings.columns, settings.swimlanes, getColumnForTask]);
+
+    // Why a card (or the selection it belongs to) can't move into a column and
+    // lane, or null when it can
+    const getDropError = useCallback((taskId: string, targetColumn: KanbanColumn, laneKey?: string): string | null => {
+        const task = allTasks.find((t: TaskItem) => t.id === taskId);
+        const swimlanes = settings.swimlanes;
+
+        // The virtual "Unsorted" column only collects unmatched tasks
+        if (isVirtualColumn(targetColumn)) {
+            return `"${targetColumn.name}" only collects tasks that match no column`;
+        }
+
+        // Columns whose rule has no write-back (e.g. "overdue") can't accept drops
+        if (!canWriteRule(getColumnRule(targetColumn))) {
+            return `Tasks can't be moved into "${targetColumn.name}": its rule can't be written to the task`;
+        }
+
+        // Enforce WIP limits on moves into a different column, counting every card that enters it
+        const movingIds = selectedIds.has(taskId) && selectedIds.size > 1 ? [...selectedIds] : [taskId];
+        const entering = movingIds.filter(id => {
+            const moving = allTasks.find((t: TaskItem) => t.id === id);
+            return !moving || getColumnForTask(moving, settings.columns)?.id !== targetColumn.id;
+        }).length;
+        if (entering > 0) {
+            const wipError = getWipDropError(targetColumn, (columnStats[targetColumn.id] || 0) + entering - 1);
+            if (wipError) return wipError;
+        }
+
+        if (task && laneKey !== undefined && isSwimlaneEnabled(swimlanes) && getLaneKey(task, swimlanes) !== laneKey && !canRewriteLane(swimlanes)) {
+            return `Cards can't be moved between ${swimlanes.groupBy} swimlanes`;
+        }
+        return null;
+    }, [allTasks, settings.columns, settings.swimlanes, columnStats, getColumnForTask, selectedIds]);
+
+    // Move a card, or the selection it belongs to, into another column (and
+    // lane); shared by drops and keyboard moves. Resolves to whether it moved.
+    const moveTask = useCallback(async (taskId: string, targetColumn: KanbanColumn, laneKey?: string): Promise<boolean> => {
+        if (!onTaskMove) return false;
+        const task = allTasks.find((t: TaskItem) => t.id === taskId);
+        const swimlanes = settings.swimlanes;
+
+        const dropError = getDropError(taskId, targetColumn, laneKey);
+        if (dropError) {
+            setError({ message: dropError });
+            return false;
+        }
+
+        // Only pass a lane when the card actually changes lanes
+        const changesLane = task && laneKey !== undefined && isSwimlaneEnabled(swimlanes) && getLaneKey(task, swimlanes) !== laneKey;
+        const targetLane = changesLane ? laneKey : undefined;
+
+        // Moving a selected card moves the whole selection
+        if (selectedIds.has(taskId) && selectedIds.size > 1 && onBulkAction) {
+            return runBulkAction({ type: 'move', columnId: targetColumn.id, laneKey: targetLane });
+        }
+
+        const placed = new Map([[taskId, { columnId: targetColumn.id, laneKey: targetLane }]]);
+        return runWrite('Failed to move task', () => writeOptimistically(placed, () => onTaskMove(taskId, targetColumn, targetLane)));
+    }, [onTaskMove, onBulkAction, allTasks, settings.swimlanes, getDropError, selectedIds, runBulkAction, runWrite, writeOptimistically]);
+
+    // Handle task drop on column, optionally within a swimlane
+    const handleDrop = useCallback(async (e: React.DragEvent, targetColumn: KanbanColumn, columnTasks: TaskItem[], laneKey?: string) => {
         e.preventDefault();
         const taskId = e.dataTransfer.getData('text/plain');
         
+        clearDragFeedback();
+        
         if (taskId && onTaskMove) {
-            try {
-                await onTaskMove(taskId, targetColumn.tag);
-                setError(null);
-            } catch (err) {
-                setError(`Failed to move task: ${err.message}`);
-                console.error('Failed to move task:', err);
+            // Dropping within the same column (and lane) rearranges cards
+            const task = allTasks.find((t: TaskItem) => t.id === taskId);
+            if (isReorderDrop(task, targetColumn, laneKey)) {
+                await handleReorder(taskId, targetColumn, columnTasks, getDropIndex(e.target, e.clientY, columnTasks));
+            } else {
+                await moveTask(taskId, targetColumn, laneKey);
             }
         }
+    }, [onTaskMove, allTasks, isReorderDrop, getDropIndex, handleReorder, moveTask, clearDragFeedback]);
+
+    // Why dropping a task into a cell would be refused: rearranging needs a
+    // manually ordered column, moves go through the usual checks
+    const getCellDropError = useCallback((taskId: string, targetColumn: KanbanColumn, laneKey?: string): string | null => {
+        const task = allTasks.find((t: TaskItem) => t.id === taskId);
+        if (!isReorderDrop(task, targetColumn, laneKey)) return getDropError(taskId, targetColumn, laneKey);
+        if (isVirtualColumn(targetColumn)) return `"${targetColumn.name}" can't be rearranged`;
+        return isManuallyOrdered(targetColumn)
+            ? null
+            : `"${targetColumn.name}" is sorted by ${formatSortKeys(targetColumn)}`;
+    }, [allTasks, isReorderDrop, getDropError]);
+
+    // Highlight the column a mouse drag enters, or mark it when it would refuse
+    // the drop; enters and leaves are counted since they also fire for children
+    const handleDragEnter = (e: React.DragEvent, column: KanbanColumn, cellKey: string, laneKey?: string) => {
+        const taskId = draggedTask.current;
+        if (!taskId) return;
+        const count = (dragEnterCounts.current.get(cellKey) ?? 0) + 1;
+        dragEnterCounts.current.set(cellKey, count);
+        if (count > 1) return;
+        
+        const element = e.currentTarget as HTMLElement;
+        const dropError = getCellDropError(taskId, column, laneKey);
+        element.classList.add(dropError ? 'kanban-drop-invalid' : 'kanban-drop-zone-active');
+        if (dropError) element.dataset.dropError = dropError;
+    };
+
+    const handleDragLeave = (e: React.DragEvent, cellKey: string) => {
+        if (!draggedTask.current) return;
+        const count = (dragEnterCounts.current.get(cellKey) ?? 0) - 1;
+        if (count > 0) {
+            dragEnterCounts.current.set(cellKey, count);
+            return;
+        }
+        dragEnterCounts.current.delete(cellKey);
         
-        setDraggedTask(null);
-    }, [onTaskMove]);
+        const element = e.currentTarget as HTMLElement;
+        element.classList.remove('kanban-drop-zone-active', 'kanban-drop-invalid');
+        delete element.dataset.dropError;
+        element.querySelectorAll('.is-drop-before, .is-drop-after').forEach(card => card.classList.remove('is-drop-before', 'is-drop-after'));
+    };
+
+    // Accept drops on columns that allow them and draw the insertion line where
+    // the card will land: at the pointer when rearranging, else where the column sorts it
+    const handleDragOver = (e: React.DragEvent, column: KanbanColumn, columnTasks: TaskItem[]) => {
+        e.preventDefault();
+        const element = e.currentTarget as HTMLElement;
+        const task = allTasks.find((t: TaskItem) => t.id === draggedTask.current);
+        if (element.dataset.dropError !== undefined) {
+            e.dataTransfer.dropEffect = 'none';
+            return;
+        }
+        e.dataTransfer.dropEffect = 'move';
+        if (!task) return;
+        
+        const position = getDropPosition(task, columnTasks, column, getDropIndex(e.target, e.clientY, columnTasks), sortOptions);
+        const before = position === null ? undefined : columnTasks[position];
+        const after = position !== null && position === columnTasks.length ? columnTasks[position - 1] : undefined;
+        element.querySelectorAll<HTMLElement>('.kanban-task-card').forEach(card => {
+            card.classList.toggle('is-drop-before', card.dataset.taskId !== undefined && card.dataset.taskId === before?.id);
+            card.classList.toggle('is-drop-after', card.dataset.taskId !== undefined && card.dataset.taskId === after?.id);
+        });
+    };
+
+    // Toggle a swimlane row between collapsed and expanded
+    const toggleLane = useCallback((laneKey: string) => {
+        setCollapsedLanes(prev => {
+            const next = new Set(prev);
+            if (next.has(laneKey)) {
+                next.delete(laneKey);
+            } else {
+                next.add(laneKey);
+            }
+            return next;
+        });
+    }, []);
+
+    // Name of a grid cell for announcements: its column, and lane when there are swimlanes
+    const describeCell = useCallback((cellKey: string): string => {
+        const cell = findCell(keyboardRows, cellKey)?.cell;
+        const column = boardColumns.find(c => c.id === cell?.columnId);
+        const lane = lanes.find(l => l.key === cell?.laneKey);
+        const name = column?.name ?? cellKey;
+        return lane ? `${name}, ${lane.label}` : name;
+    }, [keyboardRows, boardColumns, lanes]);
+
+    const getTaskLabel = useCallback((taskId: string): string => {
+        return `"${allTasks.find((t: TaskItem) => t.id === taskId)?.text ?? taskId}"`;
+    }, [allTasks]);
+
+    // Move a card into another cell of the keyboard grid and announce the result
+    const moveTaskToCell = useCallback(async (taskId: string, fromCell: string, targetCell: string) => {
+        const cell = findCell(keyboardRows, targetCell)?.cell;
+        const column = boardColumns.find(c => c.id === cell?.columnId);
+        if (targetCell === fromCell || !cell || !column) {
+            setAnnouncement(`${getTaskLabel(taskId)} dropped back in ${describeCell(fromCell)}`);
+            return;
+        }
+        const moved = await moveTask(taskId, column, cell.laneKey);
+        setAnnouncement(moved
+            ? `${getTaskLabel(taskId)} moved to ${describeCell(targetCell)}`
+            : `${getTaskLabel(taskId)} couldn't be moved to ${describeCell(targetCell)}`);
+    }, [keyboardRows, boardColumns, moveTask, describeCell, getTaskLabel]);
+
+    // Pick up the focused card, or drop the picked-up one on its target
+    const toggleGrab = useCallback(() => {
+        if (grab) {
+            setGrab(null);
+            moveTaskToCell(grab.taskId, grab.fromCell, grab.targetCell);
+            return;
+        }
+        if (!activeFocus?.taskId || !onTaskMove) return;
+        setGrab({ taskId: activeFocus.taskId, fromCell: activeFocus.cell, targetCell: activeFocus.cell });
+        setAnnouncement(`${getTaskLabel(activeFocus.taskId)} picked up in ${describeCell(activeFocus.cell)}. ` +
+            'Use the arrow keys to choose a column, Enter to drop it or Escape to cancel.');
+    }, [grab, activeFocus, onTaskMove, moveTaskToCell, describeCell, getTaskLabel]);
+
+    const cancelGrab = useCallback(() => {
+        if (!grab) return;
+        setGrab(null);
+        setAnnouncement(`Move cancelled, ${getTaskLabel(grab.taskId)} stays in ${describeCell(grab.fromCell)}`);
+    }, [grab, describeCell, getTaskLabel]);
+
+    // Choose the cell the picked-up card drops into
+    const moveGrabTarget = useCallback((move: FocusMove) => {
+        if (!grab) return;
+        const targetCell = moveDropTarget(keyboardRows, grab.targetCell, move);
+        if (targetCell === grab.targetCell) return;
+        setGrab({ ...grab, targetCell });
+        const column = boardColumns.find(c => c.id === findCell(keyboardRows, targetCell)?.cell.columnId);
+        const canDrop = column && !isVirtualColumn(column) && canWriteRule(getColumnRule(column));
+        setAnnouncement(`Over ${describeCell(targetCell)}${canDrop ? '' : ', can\'t drop here'}`);
+    }, [grab, keyboardRows, boardColumns, describeCell]);
+
+    // Focus a card, or an empty cell, of the grid
+    const focusBoardCell = useCallback((target: BoardFocus) => {
+        const selector = target.taskId !== null
+            ? `.kanban-task-card[data-task-id="${CSS.escape(target.taskId)}"]`
+            : `.kanban-column-content[data-cell-key="${CSS.escape(target.cell)}"]`;
+        const element = boardRef.current?.querySelector<HTMLElement>(selector);
+        if (element && element !== document.activeElement) element.focus();
+    }, []);
+
+    // Keys on a focused card or empty cell: arrows move the focus, or the drop
+    // target of a picked-up card; Space picks up and drops, Escape cancels
+    const handleBoardKeyDown = useCallback((e: React.KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target.dataset.cellKey === undefined || !activeFocus) return;
+        keyboardActive.current = true;
+        
+        const move = ARROW_MOVES[e.key];
+        if (move) {
+            e.preventDefault();
+            if (grab) moveGrabTarget(move);
+            else setFocus(moveBoardFocus(keyboardRows, activeFocus, move));
+            return;
+        }
+        
+        const taskId = activeFocus.taskId;
+        if (e.key === ' ') {
+            e.preventDefault();
+            toggleGrab();
+        } else if (e.key === 'Enter' && grab) {
+            e.preventDefault();
+            toggleGrab();
+        } else if (e.key === 'Enter' && taskId && onTaskEdit) {
+            e.preventDefault();
+            startEditing(taskId);
+        } else if (e.key === 'Escape' && (grab || selectedIds.size > 0)) {
+            e.preventDefault();
+            if (grab) cancelGrab();
+            else clearSelection();
+        } else if ((e.key === 'ContextMenu' || (e.key === 'F10' && e.shiftKey)) && taskId && onTaskMenu) {
+            // Open the card menu below the card, as a right-click would
+            const task = allTasks.find((t: TaskItem) => t.id === taskId);
+            if (!task) return;
+            e.preventDefault();
+            const rect = target.getBoundingClientRect();
+            onTaskMenu(task, new MouseEvent('contextmenu', { clientX: rect.left, clientY: rect.bottom }), columnStats);
+        }
+    }, [activeFocus, grab, keyboardRows, selectedIds, allTasks, columnStats, onTaskEdit, onTaskMenu, moveGrabTarget, toggleGrab, cancelGrab, clearSelection, startEditing]);
+
+    // Run a keyboard command from Obsidian's command palette or a hotkey
+    const runKeyboardCommand = (command: BoardCommand, checking: boolean): boolean => {
+        const taskId = activeFocus?.taskId;
+        switch (command) {
+            case 'focus':
+                if (!activeFocus) return false;
+                if (!checking) {
+                    keyboardActive.current = true;
+                    focusBoardCell(activeFocus);
+                }
+                return true;
+            case 'pick-up':
+                if (!grab && (!taskId || !onTaskMove)) return false;
+                if (!checking) toggleGrab();
+                return true;
+            case 'move-left':
+            case 'move-right': {
+                if (!activeFocus || !taskId || !onTaskMove) return false;
+                const move = command === 'move-left' ? 'left' : 'right';
+                if (!checking) {
+                    if (grab) moveGrabTarget(move);
+                    else moveTaskToCell(taskId, activeFocus.cell, moveDropTarget(keyboardRows, activeFocus.cell, move));
+                }
+                return true;
+            }
+            case 'cancel':
+                if (!grab) return false;
+                if (!checking) cancelGrab();
+                return true;
+        }
+    };
+
+    const showColumn = (index: number) => {
+        setVisibleColumn(Math.max(0, Math.min(index, boardColumns.length - 1)));
+    };
+
+    // Cell of the column under a point, for touch drops
+    const getCellAt = (point: PointerPoint): string | null => {
+        const element = document.elementFromPoint(point.x, point.y);
+        if (!element || !boardRef.current?.contains(element)) return null;
+        const content = element.closest('.kanban-column')?.querySelector<HTMLElement>('.kanban-column-content');
+        return content?.dataset.cellKey ?? null;
+    };
+
+    const endPointerGesture = (gesture: PointerGesture) => {
+        releaseGesture(gesture);
+        if (pointerGesture.current === gesture) pointerGesture.current = null;
+        if (gesture.dragging) setPointerDrag(null);
+    };
+
+    // Move the drag ghost with the pointer and track the cell under it
+    const updatePointerTarget = (gesture: PointerGesture) => {
+        dragGhost.current?.style.setProperty('transform', `translate(${gesture.point.x}px, ${gesture.point.y}px)`);
+        const targetCell = getCellAt(gesture.point);
+        if (targetCell === gesture.targetCell) return;
+        gesture.targetCell = targetCell;
+        setPointerDrag({ taskId: gesture.taskId, targetCell });
+    };
+
+    // Each frame of a touch drag: scroll the columns near their edges, or flip to
+    // the neighbouring column after a dwell at the screen edge in the one-column layout
+    const autoScroll = (gesture: PointerGesture) => {
+        const { x, y } = gesture.point;
+        if (singleColumn) {
+            const step = Math.sign(getAutoScrollDelta(x, 0, window.innerWidth));
+            const now = performance.now();
+            if (step === 0) {
+                gesture.edgeSince = null;
+            } else if (gesture.edgeSince === null) {
+                gesture.edgeSince = now;
+            } else if (now - gesture.edgeSince > EDGE_FLIP_MS) {
+                gesture.edgeSince = null;
+                showColumn(columnIndex + step);
+            }
+        } else {
+            const container = document.elementFromPoint(x, y)?.closest<HTMLElement>('.kanban-columns');
+            if (container) {
+                const rect = container.getBoundingClientRect();
+                container.scrollLeft += getAutoScrollDelta(x, rect.left, rect.right);
+            }
+        }
+        updatePointerTarget(gesture);
+    };
+
+    const movePointerGesture = (gesture: PointerGesture, event: PointerEvent) => {
+        gesture.point = { x: event.clientX, y: event.clientY };
+        if (!gesture.dragging) {
+            if (!hasMoved(gesture.start, gesture.point)) return;
+            // Moving before the hold is a scroll or a swipe
+            if (!gesture.armed) {
+                endPointerGesture(gesture);
+                return;
+            }
+            gesture.dragging = true;
+            setPointerDrag({ taskId: gesture.taskId, targetCell: gesture.targetCell });
+            const frame = () => {
+                if (pointerGesture.current !== gesture) return;
+                pointerHandlers.current.autoScroll(gesture);
+                gesture.frame = requestAnimationFrame(frame);
+            };
+            gesture.frame = requestAnimationFrame(frame);
+        }
+        updatePointerTarget(gesture);
+    };
+
+    // Drop a touch-dragged card: into another cell, or rearranged within its own
+    const dropPointerGesture = async (gesture: PointerGesture) => {
+        endPointerGesture(gesture);
+        if (!gesture.dragging) return;
+        suppressClick.current = true;
+        const { taskId, cellKey, targetCell, point } = gesture;
+        if (!targetCell) return;
+        if (targetCell !== cellKey) {
+            await moveTaskToCell(taskId, cellKey, targetCell);
+            return;
+        }
+        const cell = findCell(keyboardRows, targetCell)?.cell;
+        const column = boardColumns.find(c => c.id === cell?.columnId);
+        if (!cell || !column) return;
+        const columnTasks = getDisplayedTasks(column, (lanes.find(l => l.key === cell.laneKey)?.tasksByColumn ?? tasksByColumn)[column.id] || []);
+        const dropIndex = getDropIndex(document.elementFromPoint(point.x, point.y), point.y, columnTasks);
+        await handleReorder(taskId, column, columnTasks, dropIndex);
+    };
+
+    // Window listeners outlive the render that added them, so they call the latest handlers
+    const pointerHandlers = useRef({ move: movePointerGesture, drop: dropPointerGesture, end: endPointerGesture, autoScroll });
+    pointerHandlers.current = { move: movePointerGesture, drop: dropPointerGesture, end: endPointerGesture, autoScroll };
+
+    // Touch press on a card: hold to drag it, hold longer for the "Move to…" sheet
+    const handleCardPointerDown = (e: React.PointerEvent, taskId: string, cellKey: string) => {
+        suppressClick.current = false;
+        if (e.pointerType === 'mouse' || !e.isPrimary || !onTaskMove) return;
+        if (pointerGesture.current) endPointerGesture(pointerGesture.current);
+        
+        const start = { x: e.clientX, y: e.clientY };
+        const gesture: PointerGesture = {
+            pointerId: e.pointerId,
+            taskId,
+            cellKey,
+            start,
+            point: start,
+            armed: false,
+            dragging: false,
+            targetCell: cellKey,
+            edgeSince: null,
+            timers: [],
+            frame: null,
+            removeListeners: () => undefined
+        };
+        const onMove = (event: PointerEvent) => {
+            if (event.pointerId === gesture.pointerId) pointerHandlers.current.move(gesture, event);
+        };
+        const onUp = (event: PointerEvent) => {
+            if (event.pointerId === gesture.pointerId) pointerHandlers.current.drop(gesture);
+        };
+        const onCancel = (event: PointerEvent) => {
+            if (event.pointerId === gesture.pointerId) pointerHandlers.current.end(gesture);
+        };
+        // Only a non-passive touchmove listener can keep the page from scrolling during a drag
+        const onTouchMove = (event: TouchEvent) => {
+            if (gesture.armed) event.preventDefault();
+        };
+        window.addEventListener('pointermove', onMove);
+        window.addEventListener('pointerup', onUp);
+        window.addEventListener('pointercancel', onCancel);
+        window.addEventListener('touchmove', onTouchMove, { passive: false });
+        gesture.removeListeners = () => {
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerup', onUp);
+            window.removeEventListener('pointercancel', onCancel);
+            window.removeEventListener('touchmove', onTouchMove);
+        };
+        
+        gesture.timers.push(
+            window.setTimeout(() => { gesture.armed = true; }, DRAG_HOLD_MS),
+            window.setTimeout(() => {
+                if (gesture.dragging) return;
+                pointerHandlers.current.end(gesture);
+                suppressClick.current = true;
+                setMoveSheetTaskId(gesture.taskId);
+            }, LONG_PRESS_MS)
+        );
+        pointerGesture.current = gesture;
+    };
+
+    // Swipes between columns in the one-column layout
+    const handleSwipeStart = (e: React.PointerEvent) => {
+        swipeStart.current = singleColumn && e.pointerType !== 'mouse' ? { x: e.clientX, y: e.clientY } : null;
+    };
+
+    const handleSwipeEnd = (e: React.PointerEvent) => {
+        const start = swipeStart.current;
+        swipeStart.current = null;
+        if (!start || pointerGesture.current?.dragging) return;
+        const step = getSwipeStep(start, { x: e.clientX, y: e.clientY });
+        if (step !== 0) showColumn(columnIndex + step);
+    };
+
+    // Stop a touch gesture still running when the board unmounts
+    useEffect(() => () => {
+        if (pointerGesture.current) releaseGesture(pointerGesture.current);
+    }, []);
+
+    // Cards render as new elements, so keyboard focus is put back after each render
+    useEffect(() => {
+        if (!keyboardActive.current || !activeFocus) return;
+        const current = document.activeElement as HTMLElement | null;
+        const lost = !current || current === document.body;
+        if (lost || (boardRef.current?.contains(current) && current.dataset.cellKey !== undefined)) {
+            focusBoardCell(activeFocus);
+        }
+    });
+
+    // Expose the keyboard commands while the board is mounted
+    useEffect(() => {
+        if (!commandRef) return undefined;
+        commandRef.current = runKeyboardCommand;
+        return () => {
+            commandRef.current = null;
+        };
+    });
 
     // Handle manual refresh
     const handleRefresh = useCallback(async () => {
         setIsRefreshing(true);
         try {
-            onRefresh?.();
+            await onRefresh?.();
             setError(null);
         } catch (err) {
-            setError(`Failed to refresh: ${err.message}`);
+            setError({ message: `Failed to refresh: ${err.message}` });
         } finally {
             setIsRefreshing(false);
         }
     }, [onRefresh]);
 
-    // Task Card Component
-    const TaskCard = React.memo(({ task, settings: cardSettings }: { task: TaskItem; settings: KanbanSettings }) => {
+    // Card of a column (rendered inline, so an open editor keeps its input and focus)
+    const renderTaskCard = (task: TaskItem, index: number, cellKey: string, columnTasks: TaskItem[]) => {
+        const isSelected = selectedIds.has(task.id);
+        if (editingTaskId === task.id) {
+            return (
+                <div key={task.id} className="kanban-task-card is-editing" data-task-index={index}>
+                    <TaskEditor
+                        task={task}
+                        error={editError}
+                        onEdit={(edit) => handleTaskEdit(task, edit)}
+                        onDone={stopEditing}
+                    />
+                </div>
+            );
+        }
+        
         return (
             <div
-                className="kanban-task-card"
+                key={task.id}
+                className={`kanban-task-card ${isSelected ? 'is-selected' : ''} ${grab?.taskId === task.id ? 'is-grabbed' : ''} ${pointerDrag?.taskId === task.id ? 'is-dragging' : ''}`}
+                data-task-index={index}
+                data-task-id={task.id}
+                data-cell-key={cellKey}
+                role="option"
+                aria-selected={isSelected}
+                tabIndex={activeFocus?.taskId === task.id ? 0 : -1}
                 draggable
+                onClick={(e) => {
+                    if (suppressClick.current) {
+                        suppressClick.current = false;
+                        return;
+                    }
+                    setFocus({ cell: cellKey, taskId: task.id });
+                    handleCardClick(e, task, columnTasks);
+                    handleCardOpen(e, task);
+                }}
+                onContextMenu={onTaskMenu ? (e) => {
+                    e.preventDefault();
+                    // On touch, a long press opens the "Move to…" sheet instead
+                    if (pointerGesture.current || moveSheetTaskId) return;
+                    onTaskMenu(task, e.nativeEvent, columnStats);
+                } : undefined}
+                onPointerDown={(e) => handleCardPointerDown(e, task.id, cellKey)}
                 onDragStart={(e) => handleDragStart(e, task.id)}
+                onDragEnd={clearDragFeedback}
                 style={{
-                    maxHeight: cardSettings.cardMaxHeight ? `${cardSettings.cardMaxHeight}px` : undefined
+                    maxHeight: settings.cardMaxHeight ? `${settings.cardMaxHeight}px` : undefined
                 }}
             >
                 <div className="task-content">
-                    <div className="task-text">{task.text}</div>
+                    <div
+                        className="task-text"
+                        onDoubleClick={onTaskEdit ? () => startEditing(task.id) : undefined}
+                        title={onTaskEdit ? 'Double-click to edit' : undefined}
+                    >
+                        {task.text}
+                    </div>
                     
-                    {cardSettings.showDueDate && task.dueDate && (
+                    {settings.showDueDate && task.dueDate && (
                         <div className="task-due-date">
                             <span className="task-label">Due:</span>
                             <time dateTime={task.dueDate}>{task.dueDate}</time>
                         </div>
                     )}
                     
-                    {cardSettings.showPriority && task.priority && (
+                    {settings.showPriority && task.priority && (
                         <div className={`task-priority priority-${task.priority.toLowerCase()}`}>
                             <span className="task-label">Priority:</span>
                             <span className="priority-value">{task.priority}</span>
                         </div>
                     )}
                     
-                    {cardSettings.showTags && task.tags.length > 0 && (
+                    {settings.showTags && task.tags.length > 0 && (
                         <div className="task-tags">
                             {task.tags.map(tag => (
                                 <span key={tag} className="task-tag">
@@ -168,32 +1202,51 @@ return function KanbanBoard({ settings, onTaskMove, onRefresh, className }: Kanb
                     )}
                 </div>
                 
-                <div className="task-meta">
+                <div
+                    className={`task-meta ${onOpenTask ? 'task-source-link' : ''}`}
+                    role={onOpenTask ? 'link' : undefined}
+                    tabIndex={onOpenTask ? 0 : undefined}
+                    title={onOpenTask ? 'Open at the task line (Ctrl/Cmd-click: new tab, Ctrl/Cmd+Alt-click: split)' : undefined}
+                    onClick={onOpenTask ? (e) => openTask(e, task) : undefined}
+                    onAuxClick={onOpenTask ? (e) => e.button === 1 && openTask(e, task) : undefined}
+                    onKeyDown={onOpenTask ? (e) => e.key === 'Enter' && openTask(e, task) : undefined}
+                    onMouseOver={onHoverTask ? (e) => onHoverTask(task, e.nativeEvent) : undefined}
+                >
                     <span className="task-file">{task.file.basename}</span>
-                    <span className="task-line">Line {task.line}</span>
+                    <span className="task-line">Line {task.line + 1}</span>
                 </div>
             </div>
         );
-    });
+    };
 
-    // Column Component
-    const KanbanColumn = React.memo(({ 
-        column, 
-        tasks, 
-        taskCount, 
-        isDragTarget 
-    }: { 
-        column: KanbanColumn; 
-        tasks: TaskItem[]; 
-        taskCount: number;
-        isDragTarget: boolean;
-    }) => {
+    // Column of a row, rendered inline like its cards
+    const renderColumn = (column: KanbanColumn, tasks: TaskItem[], taskCount: number, laneKey?: string) => {
+        // WIP limits apply to the whole column, across swimlanes
+        const wip = getWipState(column, columnStats[column.id] || 0);
+        const cellKey = getCellKey(column.id, laneKey);
+        const lane = lanes.find(l => l.key === laneKey);
+        // Card indices and shift-click ranges follow the order on screen, section by section when grouped
+        const sections = isColumnGroupingEnabled(column.groupBy) ? groupColumnTasks(tasks, column.groupBy) : null;
+        const displayedTasks = sections ? sections.flatMap(section => section.tasks) : tasks;
+        // Whether a keyboard or touch move targets this cell, and whether it refuses
+        // the card; dropping back into the origin cell with the keyboard is a no-op
+        const keyboardTarget = grab?.targetCell === cellKey ? grab : null;
+        const movingTaskId = keyboardTarget?.taskId ?? (pointerDrag?.targetCell === cellKey ? pointerDrag.taskId : null);
+        const movingError = movingTaskId === null || keyboardTarget?.fromCell === cellKey
+            ? null
+            : getCellDropError(movingTaskId, column, laneKey);
+        const canQuickAdd = onQuickAdd !== undefined && !isVirtualColumn(column) && canWriteRule(getColumnRule(column));
+        
         return (
             <div 
-                className={`kanban-column ${isDragTarget ? 'kanban-drop-zone-active' : ''}`}
+                key={column.id}
+                className={`kanban-column ${wip.exceeded ? 'kanban-column-over-limit' : ''} ${isVirtualColumn(column) ? 'kanban-column-unsorted' : ''} ${movingTaskId === null ? '' : movingError ? 'kanban-drop-invalid' : 'kanban-drop-target'}`}
                 data-column-id={column.id}
-                onDragOver={handleDragOver}
-                onDrop={(e) => handleDrop(e, column)}
+                data-drop-error={movingError ?? undefined}
+                onDragEnter={(e) => handleDragEnter(e, column, cellKey, laneKey)}
+                onDragLeave={(e) => handleDragLeave(e, cellKey)}
+                onDragOver={(e) => handleDragOver(e, column, displayedTasks)}
+                onDrop={(e) => handleDrop(e, column, displayedTasks, laneKey)}
             >
                 <div 
                     className="kanban-column-header"
@@ -205,19 +1258,69 @@ return function KanbanBoard({ settings, onTaskMove, onRefresh, className }: Kanb
                     >
                         {column.name}
                     </h3>
-                    <span className="kanban-column-count">
-                        {taskCount}
+                    <span 
+                        className={`kanban-column-count ${wip.exceeded ? 'is-over-limit' : ''}`}
+                        title={wip.limit !== null ? `WIP limit: ${wip.limit} (${wip.mode})` : undefined}
+                    >
+                        {wip.limit !== null ? formatWipCount(wip) : taskCount}
                     </span>
+                    {canQuickAdd && (
+                        <button
+                            className="kanban-column-add"
+                            onClick={() => toggleQuickAdd(cellKey)}
+                            aria-label={`Add task to ${column.name}`}
+                            aria-expanded={quickAddKey === cellKey}
+                            title={`Add task to ${column.name}`}
+                        >
+                            +
+                        </button>
+                    )}
                 </div>
                 
-                <div className="kanban-column-content">
-                    {tasks.map(task => (
-                        <TaskCard 
-                            key={task.id} 
-                            task={task} 
-                            settings={settings}
+                {canQuickAdd && quickAddKey === cellKey && (
+                    <div className="kanban-quick-add">
+                        <input
+                            type="text"
+                            className="kanban-quick-add-input"
+                            defaultValue={quickAddDraft.current}
+                            placeholder="New task, e.g. Call Sam 📅 tomorrow ⏫"
+                            aria-label={`New task in ${column.name}`}
+                            autoFocus
+                            onChange={(e) => { quickAddDraft.current = e.currentTarget.value; }}
+                            onKeyDown={async (e) => {
+                                if (e.key === 'Escape') toggleQuickAdd(cellKey);
+                                if (e.key !== 'Enter') return;
+                                const input = e.currentTarget;
+                                if (await handleQuickAdd(column, input.value, laneKey)) input.value = '';
+                            }}
                         />
-                    ))}
+                        {quickAddError && (
+                            <div className="kanban-quick-add-error" role="alert">{quickAddError}</div>
+                        )}
+                    </div>
+                )}
+                
+                <div
+                    className="kanban-column-content"
+                    role="listbox"
+                    aria-label={lane ? `${column.name}, ${lane.label}` : column.name}
+                    aria-multiselectable={onBulkAction ? true : undefined}
+                    data-cell-key={cellKey}
+                    tabIndex={tasks.length === 0 ? (activeFocus?.cell === cellKey ? 0 : -1) : undefined}
+                >
+                    {sections ? (
+                        sections.map(section => (
+                            <div key={section.key} className="kanban-column-section">
+                                <div className="kanban-column-section-header">
+                                    <span className="kanban-column-section-title">{section.label}</span>
+                                    <span className="kanban-column-section-count">{section.tasks.length}</span>
+                                </div>
+                                {section.tasks.map(task => renderTaskCard(task, displayedTasks.indexOf(task), cellKey, displayedTasks))}
+                            </div>
+                        ))
+                    ) : (
+                        tasks.map((task, index) => renderTaskCard(task, index, cellKey, tasks))
+                    )}
                     
                     {tasks.length === 0 && (
                         <div className="kanban-empty-column">
@@ -230,13 +1333,18 @@ return function KanbanBoard({ settings, onTaskMove, onRefresh, className }: Kanb
                 </div>
             </div>
         );
-    });
+    };
 
     // Error Display Component
-    const ErrorDisplay = React.memo(({ error }: { error: string }) => (
+    const ErrorDisplay = React.memo(({ error }: { error: BoardError }) => (
         <div className="kanban-error" role="alert">
             <span className="error-icon">⚠️</span>
-            <span className="error-message">{error}</span>
+            <span className="error-message">{error.message}</span>
+            {error.retry && (
+                <button className="error-retry" onClick={error.retry}>
+                    Retry
+                </button>
+            )}
             <button 
                 className="error-dismiss"
                 onClick={() => setError(null)}
@@ -247,6 +1355,104 @@ return function KanbanBoard({ settings, onTaskMove, onRefresh, className }: Kanb
         </div>
     ));
 
+    // Toolbar of bulk actions on the selected cards (rendered inline so its inputs keep focus)
+    const renderBulkActions = () => {
+        return (
+            <div className="kanban-bulk-actions" role="toolbar" aria-label="Bulk actions">
+                <select
+                    className="dropdown"
+                    value=""
+                    onChange={(e) => e.target.value && runBulkAction({ type: 'move', columnId: e.target.value })}
+                    aria-label="Set status"
+                >
+                    <option value="">Set status…</option>
+                    {writableColumns.map(column => (
+                        <option key={column.id} value={column.id}>{column.name}</option>
+                    ))}
+                </select>
+                
+                <input
+                    type="text"
+                    className="kanban-bulk-tag"
+                    placeholder="#tag"
+                    value={bulkTag}
+                    onChange={(e) => setBulkTag(e.target.value)}
+                    aria-label="Tag"
+                />
+                <button disabled={!bulkTag.trim()} onClick={() => runBulkAction({ type: 'add-tag', tag: bulkTag })}>Add tag</button>
+                <button disabled={!bulkTag.trim()} onClick={() => runBulkAction({ type: 'remove-tag', tag: bulkTag })}>Remove tag</button>
+                
+                <input
+                    type="date"
+                    value={bulkDueDate}
+                    onChange={(e) => setBulkDueDate(e.target.value)}
+                    aria-label="Due date"
+                />
+                <button onClick={() => runBulkAction({ type: 'due', date: bulkDueDate || null })}>
+                    {bulkDueDate ? 'Set due date' : 'Clear due date'}
+                </button>
+                
+                <select
+                    className="dropdown"
+                    value=""
+                    onChange={(e) => e.target.value && runBulkAction({
+                        type: 'priority',
+                        priority: e.target.value === 'none' ? null : e.target.value as TaskPriorityName
+                    })}
+                    aria-label="Set priority"
+                >
+                    <option value="">Set priority…</option>
+                    {PRIORITY_OPTIONS.map(priority => (
+                        <option key={priority} value={priority}>{priority}</option>
+                    ))}
+                    <option value="none">none</option>
+                </select>
+                
+                <button onClick={() => runBulkAction({ type: 'complete' })}>Complete</button>
+                <button onClick={() => runBulkAction({ type: 'archive' })}>Archive</button>
+                <button className="kanban-bulk-clear" onClick={clearSelection} aria-label="Clear selection">×</button>
+            </div>
+        );
+    };
+
+    // "Move to…" sheet opened by long-pressing a card
+    const renderMoveSheet = (task: TaskItem) => {
+        const current = getColumnForTask(task, settings.columns);
+        const close = () => setMoveSheetTaskId(null);
+        
+        return (
+            <div className="kanban-move-sheet-backdrop" onClick={close}>
+                <div
+                    className="kanban-move-sheet"
+                    role="dialog"
+                    aria-modal="true"
+                    aria-label={`Move "${task.text}" to…`}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => e.key === 'Escape' && close()}
+                >
+                    <div className="kanban-move-sheet-title">Move to…</div>
+                    <div className="kanban-move-sheet-task">{task.text}</div>
+                    {writableColumns.map(column => (
+                        <button
+                            key={column.id}
+                            className={`kanban-move-sheet-option ${column.id === current?.id ? 'is-current' : ''}`}
+                            disabled={column.id === current?.id}
+                            onClick={() => {
+                                close();
+                                moveTask(task.id, column);
+                            }}
+                        >
+                            {column.name}
+                        </button>
+                    ))}
+                    <button className="kanban-move-sheet-cancel" onClick={close} autoFocus>Cancel</button>
+                </div>
+            </div>
+        );
+    };
+
+    const moveSheetTask = moveSheetTaskId ? allTasks?.find((t: TaskItem) => t.id === moveSheetTaskId) : undefined;
+
     // Loading state
     if (!allTasks) {
         return (
@@ -258,17 +1464,46 @@ return function KanbanBoard({ settings, onTaskMove, onRefresh, className }: Kanb
     }
 
     return (
-        <div className={`kanban-board ${className || ''}`}>
+        <div
+            ref={boardRef}
+            className={`kanban-board ${singleColumn ? 'is-single-column' : ''} ${className || ''}`}
+            onKeyDown={handleBoardKeyDown}
+            onMouseDown={() => { keyboardActive.current = false; }}
+            onPointerDown={handleSwipeStart}
+            onPointerUp={handleSwipeEnd}
+        >
+            {/* Announcements of keyboard moves for screen readers */}
+            <div className="kanban-live-region" role="status" aria-live="polite">
+                {announcement}
+            </div>
+
             {/* Header with controls */}
             <div className="kanban-header">
                 <div className="kanban-title">
-                    <h2>Task Board</h2>
+                    <h2>{boards?.find(board => board.id === activeBoardId)?.name ?? 'Task Board'}</h2>
                     <span className="task-count">
                         {allTasks.length} total tasks
                     </span>
+                    {selectedIds.size > 0 && (
+                        <span className="kanban-selection-count" aria-live="polite">
+                            {selectedIds.size} selected
+                        </span>
+                    )}
                 </div>
                 
                 <div className="kanban-controls">
+                    {boards && boards.length > 1 && onBoardChange && (
+                        <select
+                            className="kanban-board-switcher dropdown"
+                            value={activeBoardId}
+                            onChange={(e) => onBoardChange(e.target.value)}
+                            aria-label="Switch board"
+                        >
+                            {boards.map(board => (
+                                <option key={board.id} value={board.id}>{board.name}</option>
+                            ))}
+                        </select>
+                    )}
                     <button
                         className="kanban-refresh-btn"
                         onClick={handleRefresh}
@@ -285,37 +1520,174 @@ return function KanbanBoard({ settings, onTaskMove, onRefresh, className }: Kanb
                 </div>
             </div>
 
+            {/* Bulk actions on the selection */}
+            {selectedIds.size > 0 && onBulkAction && renderBulkActions()}
+
             {/* Error display */}
             {error && <ErrorDisplay error={error} />}
 
-            {/* Kanban columns */}
-            <div className="kanban-columns">
-                {settings.columns.map(column => (
-                    <KanbanColumn
-                        key={column.id}
-                        column={column}
-                        tasks={tasksByColumn[column.id] || []}
-                        taskCount={columnStats[column.id] || 0}
-                        isDragTarget={draggedTask !== null}
-                    />
-                ))}
-            </div>
+            {/* Column switcher of the one-column layout */}
+            {singleColumn && boardColumns.length > 1 && (
+                <div className="kanban-column-pager">
+                    <button
+                        className="kanban-column-pager-prev"
+                        disabled={columnIndex === 0}
+                        onClick={() => showColumn(columnIndex - 1)}
+                        aria-label="Previous column"
+                    >
+                        ‹
+                    </button>
+                    <span className="kanban-column-pager-title">
+                        {boardColumns[columnIndex]?.name} ({columnIndex + 1}/{boardColumns.length})
+                    </span>
+                    <button
+                        className="kanban-column-pager-next"
+                        disabled={columnIndex === boardColumns.length - 1}
+                        onClick={() => showColumn(columnIndex + 1)}
+                        aria-label="Next column"
+                    >
+                        ›
+                    </button>
+                </div>
+            )}
+
+            {/* Kanban columns, one row per swimlane when enabled */}
+            {lanes.length > 0 ? (
+                <div className="kanban-swimlanes">
+                    {lanes.map(lane => {
+                        const isCollapsed = collapsedLanes.has(lane.key);
+                        return (
+                            <div
+                                key={lane.key}
+                                className={`kanban-swimlane ${isCollapsed ? 'is-collapsed' : ''}`}
+                                data-lane-key={lane.key}
+                            >
+                                <button
+                                    className="kanban-swimlane-header"
+                                    onClick={() => toggleLane(lane.key)}
+                                    aria-expanded={!isCollapsed}
+                                >
+                                    <span className="kanban-swimlane-toggle">{isCollapsed ? '▸' : '▾'}</span>
+                                    <span className="kanban-swimlane-title">{lane.label}</span>
+                                    <span className="kanban-swimlane-count">{lane.taskCount}</span>
+                                </button>
+                                
+                                {!isCollapsed && (
+                                    <div className="kanban-columns">
+                                        {displayedColumns.map(column => renderColumn(
+                                            column,
+                                            lane.tasksByColumn[column.id] || [],
+                                            lane.tasksByColumn[column.id]?.length || 0,
+                                            lane.key
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="kanban-columns">
+                    {displayedColumns.map(column => renderColumn(column, tasksByColumn[column.id] || [], columnStats[column.id] || 0))}
+                </div>
+            )}
+
+            {/* Card following a touch drag */}
+            {pointerDrag && (
+                <div
+                    ref={dragGhost}
+                    className="kanban-drag-ghost"
+                    aria-hidden="true"
+                    style={{
+                        transform: pointerGesture.current
+                            ? `translate(${pointerGesture.current.point.x}px, ${pointerGesture.current.point.y}px)`
+                            : undefined
+                    }}
+                >
+                    {allTasks.find((t: TaskItem) => t.id === pointerDrag.taskId)?.text}
+                </div>
+            )}
+
+            {/* Move sheet of a long-pressed card */}
+            {moveSheetTask && renderMoveSheet(moveSheetTask)}
 
             {/* Board statistics */}
             <div className="kanban-stats">
                 <div className="stats-summary">
                     <span>Total: {allTasks.length}</span>
-                    {settings.columns.map(column => (
+                    {boardColumns.map(column => (
                         <span key={column.id} className="column-stat">
                             {column.name}: {columnStats[column.id] || 0}
                         </span>
                     ))}
+                    {taskGroups.hiddenCount > 0 && (
+                        <span className="column-stat kanban-hidden-stat">
+                            Hidden: {taskGroups.hiddenCount}
+                        </span>
+                    )}
                 </div>
             </div>
         </div>
     );
 }
 
+// Re-rendered only when its props change: the query returned other tasks, a
+// pending write moved a card, or the view passed new settings or handlers
+const MemoKanbanBoardContent = React.memo(KanbanBoardContent);
+
+/**
+ * Subscribes the board to Datacore. Index updates re-run the query here, but
+ * the board itself only re-renders when the query result changed, so typing
+ * in a note without board tasks doesn't rebuild it.
+ */
+return function KanbanBoard(props: KanbanBoardProps) {
+    // Datacore query for live task updates, kept as the same list while its tasks are unchanged
+    const queriedTasks: TaskItem[] | undefined = dc.useQuery(props.settings.datacoreQuery || '@task');
+    const boardTasks = useRef(queriedTasks);
+    if (!isSameTaskList(boardTasks.current, queriedTasks)) boardTasks.current = queriedTasks;
+    
+    // Moves shown before Datacore has indexed them, until the index reaches
+    // the revision holding each write
+    const indexRevision: number = dc.useIndexUpdates();
+    const latestRevision = useRef(indexRevision);
+    latestRevision.current = indexRevision;
+    const [pendingWrites, setPendingWrites] = useState<PendingWrite[]>([]);
+    const nextWriteId = useRef(0);
+    const placements = dc.useMemo(() => collectPlacements(pendingWrites), [pendingWrites]);
+    
+    // Forget the pending writes the index has caught up with
+    useEffect(() => {
+        setPendingWrites(writes => {
+            const open = reconcileWrites(writes, indexRevision);
+            return open.length === writes.length ? writes : open;
+        });
+    }, [indexRevision]);
+
+    // Show cards at their new place while a write runs; they stay there until
+    // the index holds the write, and go back if it fails
+    const writeOptimistically = useCallback(async (placed: Map<string, CardPlacement>, write: () => Promise<WriteRevision>): Promise<void> => {
+        const id = nextWriteId.current++;
+        setPendingWrites(writes => [...writes, { id, placements: placed, revision: null }]);
+        try {
+            // Without a reported revision, the next index update reconciles the write
+            const revision = await write() ?? latestRevision.current + 1;
+            setPendingWrites(writes => acknowledgeWrite(writes, id, revision, latestRevision.current));
+        } catch (err) {
+            setPendingWrites(writes => writes.filter(write => write.id !== id));
+            throw err;
+        }
+    }, []);
+
+    return (
+        <MemoKanbanBoardContent
+            {...props}
+            queriedTasks={boardTasks.current}
+            placements={placements}
+            writeOptimistically={writeOptimistically}
+        />
+    );
+}
+
 // Export component with display name for debugging
 KanbanBoard.displayName = 'KanbanBoard';
 
@@ -3,25 +3,187 @@
  * Bridges the original Obsidian ItemView with the new React component
  */
 
-import { ItemView, WorkspaceLeaf, App } from 'obsidian';
+import { ItemView, WorkspaceLeaf, App, Menu, Modal, Notice, Platform, Plugin, Scope, TFile, ViewStateResult } from 'obsidian';
 import { Root, createRoot } from 'react-dom/client';
 import React from 'react';
 import KanbanBoard from './KanbanBoard';
 import DatacoreKanbanPlugin from '../main';
-import type { KanbanSettings } from '../Settings';
+import type { KanbanSettings, KanbanColumn } from '../Settings';
+import type { TaskItem } from '../DatacoreSync';
+import { isSwimlaneEnabled, rewriteLaneKey } from '../Swimlanes';
+import { getTaskBlockEnd, LineMove, moveTaskLine, ORDER_FIELD, planLineReorder, planManualReorder } from '../CardOrdering';
+import { ensureBlockId, postponeDueDate, setInlineField, toggleTaskCompletion } from '../TaskLineEdits';
+import { TasksPluginIntegration } from '../TasksPluginIntegration';
+import { applyBoard, BoardDefinition, findBoard, getBoards } from '../Boards';
+import { getTaskAnchor, requireTaskLine } from '../TaskLocator';
+import { getTaskWriter, TaskWriter } from '../TaskWriter';
+import { applyLineChanges, BoardHistory, BoardOperation, groupChangesByPath, hashNextLine, HistoryDirection, LineChange } from '../BoardHistory';
+import { BulkAction, createBulkLineEdit, describeBulkAction, getBulkOperationKind, groupTasksByPath } from '../BulkActions';
+import { applyTaskEdit, describeTaskEdit, TaskEdit } from '../TaskEdits';
+import { addTaskToNote, createQuickAddLine, getDailyNotePath, resolveQuickAddTarget } from '../QuickAdd';
+import { HOVER_SOURCE_ID, openTaskSource, SourcePaneType, triggerTaskHover } from '../TaskNavigation';
+import { cardMenuItems, getCardMenuTitle, parsePostponeAmount } from '../CardMenu';
+import { canWriteRule, createRuleContext, getColumnRule, moveLineToColumn } from '../ColumnRules';
+import { DEFAULT_UNSORTED_POLICY, isVirtualColumn, resolveTaskColumn } from '../TaskGrouping';
+import { getWipDropError } from '../WipLimits';
+import { tokenizeTaskLine, TaskPriorityName } from '../TaskLine';
+import type { BoardCommand } from '../BoardKeyboard';
+import { resolveMobileLayout } from '../PointerDrag';
+import type { WriteRevision } from '../OptimisticUpdates';
+import { formatTaskError, missingTaskError, TaskWriteError } from '../TaskErrors';
+import { getIndexEvents, resolveRefreshInterval } from '../BoardRefresh';
+import {
+    getBoardFilePath,
+    isBoardFile,
+    parseBoardFrontmatter,
+    parseBoardJson,
+    serializeBoard
+} from '../BoardFiles';
 
 export const VIEW_TYPE_KANBAN = 'kanban-board-view';
 
+// How long the "Undo" toast stays after a drop
+const UNDO_TOAST_DURATION = 6000;
+
+// Priorities offered in the card menu
+const MENU_PRIORITIES: TaskPriorityName[] = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+/**
+ * Open a board in a new tab, or in a split next to the active leaf
+ */
+export async function openKanbanBoard(app: App, boardId: string, split = false): Promise<void> {
+    const leaf = split ? app.workspace.getLeaf('split', 'vertical') : app.workspace.getLeaf('tab');
+    await leaf.setViewState({ type: VIEW_TYPE_KANBAN, active: true, state: { boardId } });
+    app.workspace.revealLeaf(leaf);
+}
+
+/**
+ * Open a board defined by a `*.kanban.json` file or a note's frontmatter
+ */
+export async function openKanbanBoardFile(app: App, path: string, split = false): Promise<void> {
+    const leaf = split ? app.workspace.getLeaf('split', 'vertical') : app.workspace.getLeaf('tab');
+    await leaf.setViewState({ type: VIEW_TYPE_KANBAN, active: true, state: { boardFile: path } });
+    app.workspace.revealLeaf(leaf);
+}
+
+/**
+ * Register the "Undo last board move" and "Redo last board move" commands,
+ * acting on the active board or else the first open one
+ */
+export function registerHistoryCommands(plugin: Plugin): void {
+    const { app } = plugin;
+    const getView = (): KanbanView | null => {
+        const active = app.workspace.getActiveViewOfType(KanbanView);
+        if (active) return active;
+        const view = app.workspace.getLeavesOfType(VIEW_TYPE_KANBAN)[0]?.view;
+        return view instanceof KanbanView ? view : null;
+    };
+
+    plugin.addCommand({
+        id: 'undo-board-move',
+        name: 'Undo last board move',
+        checkCallback: (checking: boolean) => {
+            const view = getView();
+            if (!view?.canUndo()) return false;
+            if (!checking) view.undo();
+            return true;
+        }
+    });
+
+    plugin.addCommand({
+        id: 'redo-board-move',
+        name: 'Redo last board move',
+        checkCallback: (checking: boolean) => {
+            const view = getView();
+            if (!view?.canRedo()) return false;
+            if (!checking) view.redo();
+            return true;
+        }
+    });
+}
+
+/**
+ * Register the board views with the Page preview plugin, so hovering a
+ * card's source link previews the task without holding Mod
+ */
+export function registerCardHoverSource(plugin: Plugin): void {
+    plugin.registerHoverLinkSource(HOVER_SOURCE_ID, { display: 'Kanban board', defaultMod: false });
+}
+
+/**
+ * Register the keyboard commands of the active board; they have no default
+ * hotkeys, so the board's own keys keep working and any of them can be bound
+ */
+export function registerKeyboardCommands(plugin: Plugin): void {
+    const commands: { id: string; name: string; command: BoardCommand }[] = [
+        { id: 'focus-board', name: 'Focus board cards', command: 'focus' },
+        { id: 'pick-up-card', name: 'Pick up or drop focused card', command: 'pick-up' },
+        { id: 'move-card-previous-column', name: 'Move focused card to previous column', command: 'move-left' },
+        { id: 'move-card-next-column', name: 'Move focused card to next column', command: 'move-right' },
+        { id: 'cancel-card-move', name: 'Cancel card move', command: 'cancel' }
+    ];
+
+    for (const { id, name, command } of commands) {
+        plugin.addCommand({
+            id,
+            name,
+            checkCallback: (checking: boolean) => {
+                const view = plugin.app.workspace.getActiveViewOfType(KanbanView);
+                return view?.runBoardCommand(command, checking) ?? false;
+            }
+        });
+    }
+}
+
+/**
+ * Whether a key event comes from an input, a textarea or editable content
+ */
+function isTextEntry(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+// Plugins whose board view commands and hover source are registered
+const viewPlugins = new WeakSet<Plugin>();
+
+/**
+ * Register the commands and the hover source of open boards, once per
+ * plugin; they only apply while a board view exists, so the first view
+ * registers them
+ */
+function registerViewExtensions(plugin: Plugin): void {
+    if (viewPlugins.has(plugin)) return;
+    viewPlugins.add(plugin);
+    registerHistoryCommands(plugin);
+    registerCardHoverSource(plugin);
+    registerKeyboardCommands(plugin);
+}
+
 export class KanbanView extends ItemView {
     plugin: DatacoreKanbanPlugin;
     settings: KanbanSettings;
     private root: Root | null = null;
     private refreshInterval: number | null = null;
+    // Set when a polling refresh was skipped while the leaf was hidden
+    private stale = false;
+    private tasksIntegration: TasksPluginIntegration;
+    private writer: TaskWriter<TFile>;
+    private history = new BoardHistory();
+    private boardId: string | null = null;
+    // Board loaded from a vault file, when this leaf shows one
+    private boardFile: string | null = null;
+    private fileBoard: BoardDefinition | null = null;
+    private fileBoardError: string | null = null;
+    // Keyboard command handler of the mounted board
+    private boardCommands: { current: ((command: BoardCommand, checking: boolean) => boolean) | null } = { current: null };
 
     constructor(leaf: WorkspaceLeaf, plugin: DatacoreKanbanPlugin) {
         super(leaf);
         this.plugin = plugin;
         this.settings = plugin.settings;
+        this.tasksIntegration = new TasksPluginIntegration(this.app);
+        this.writer = getTaskWriter(this.app.vault);
+        registerViewExtensions(plugin);
     }
 
     getViewType(): string {
@@ -29,7 +191,7 @@ export class KanbanView extends ItemView {
     }
 
     getDisplayText(): string {
-        return 'Kanban Board';
+        return this.getBoard().name;
     }
 
     getIcon(): string {
@@ -46,20 +208,68 @@ export class KanbanView extends ItemView {
         
         this.root = createRoot(container);
         
+        // Undo/redo board moves while the view is focused, leaving text
+        // fields their own undo
+        this.scope = new Scope(this.app.scope);
+        this.scope.register(['Mod'], 'z', (evt: KeyboardEvent) => {
+            if (isTextEntry(evt.target)) return true;
+            this.undo();
+            return false;
+        });
+        this.scope.register(['Mod', 'Shift'], 'z', (evt: KeyboardEvent) => {
+            if (isTextEntry(evt.target)) return true;
+            this.redo();
+            return false;
+        });
+        
         // Initial render
         await this.renderComponent();
         
-        // Set up auto-refresh if needed
+        // The board's query follows index updates; poll only when enabled in settings
+        this.watchVisibility();
         this.setupAutoRefresh();
         
         // Listen for settings changes
         this.registerEvent(
             this.app.workspace.on('kanban-settings-changed', () => {
                 this.settings = this.plugin.settings;
+                this.setupAutoRefresh();
                 this.renderComponent();
             })
         );
 
+        // Live-reload boards defined in vault files
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                if (file.path === this.boardFile && isBoardFile(file.path)) {
+                    this.reloadBoardFile();
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.metadataCache.on('changed', (file) => {
+                if (file.path === this.boardFile && !isBoardFile(file.path)) {
+                    this.reloadBoardFile();
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('rename', (file, oldPath) => {
+                if (oldPath === this.boardFile) {
+                    this.boardFile = file.path;
+                    this.app.workspace.requestSaveLayout();
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('delete', (file) => {
+                if (file.path === this.boardFile) {
+                    this.fileBoardError = `Board file ${file.path} was deleted`;
+                    this.renderComponent();
+                }
+            })
+        );
+
         // Listen for Datacore updates
         this.registerEvent(
             this.app.workspace.on('datacore-index-ready', () => {
@@ -68,12 +278,97 @@ export class KanbanView extends ItemView {
         );
     }
 
+    getState(): Record<string, unknown> {
+        if (this.boardFile) {
+            return { ...super.getState(), boardFile: this.boardFile };
+        }
+        return { ...super.getState(), boardId: this.getBoard().id };
+    }
+
+    async setState(state: unknown, result: ViewStateResult): Promise<void> {
+        const { boardId, boardFile } = (state ?? {}) as { boardId?: unknown; boardFile?: unknown };
+        if (typeof boardFile === 'string') {
+            this.boardFile = boardFile;
+            await this.loadBoardFile();
+        } else if (typeof boardId === 'string') {
+            this.boardId = boardId;
+            this.boardFile = null;
+            this.fileBoard = null;
+            this.fileBoardError = null;
+        }
+        await super.setState(state, result);
+        await this.renderComponent();
+    }
+
+    onPaneMenu(menu: Menu, source: string): void {
+        super.onPaneMenu(menu, source);
+        menu.addItem(item => item
+            .setTitle('Save board as file')
+            .setIcon('file-json')
+            .onClick(() => this.saveBoardAsFile()));
+    }
+
+    /**
+     * Export the current board to a `*.kanban.json` file next to the active
+     * note and show the board from that file
+     */
+    public async saveBoardAsFile(): Promise<void> {
+        const board = this.getBoard();
+        const folder = this.app.workspace.getActiveFile()?.parent?.path ?? '';
+        const path = getBoardFilePath(board.name, folder, p => this.app.vault.getAbstractFileByPath(p) !== null);
+
+        try {
+            await this.app.vault.create(path, serializeBoard(board));
+            new Notice(`Saved board to ${path}`);
+            await this.leaf.setViewState({ type: VIEW_TYPE_KANBAN, state: { boardFile: path } });
+        } catch (error) {
+            console.error('Failed to save board as file:', error);
+            new Notice(`Failed to save board: ${error.message}`);
+        }
+    }
+
+    // The board shown in this leaf
+    private getBoard(): BoardDefinition {
+        return this.fileBoard ?? findBoard(this.settings, this.boardId);
+    }
+
+    // Read the board definition from its vault file
+    private async loadBoardFile(): Promise<void> {
+        if (!this.boardFile) return;
+
+        const file = this.app.vault.getAbstractFileByPath(this.boardFile);
+        if (!(file instanceof TFile)) {
+            this.fileBoardError = `Board file ${this.boardFile} not found`;
+            return;
+        }
+
+        try {
+            if (isBoardFile(file.path)) {
+                this.fileBoard = parseBoardJson(await this.app.vault.cachedRead(file), file.path);
+            } else {
+                const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+                this.fileBoard = parseBoardFrontmatter(frontmatter, file.path);
+            }
+            this.fileBoardError = null;
+        } catch (error) {
+            // Shown instead of the board until the file is fixed
+            this.fileBoardError = error.message;
+        }
+    }
+
+    private async reloadBoardFile(): Promise<void> {
+        await this.loadBoardFile();
+        await this.renderComponent();
+    }
+
+    // Global settings with this leaf's board applied
+    private getBoardSettings(): KanbanSettings {
+        return applyBoard(this.settings, this.getBoard());
+    }
+
     async onClose(): Promise<void> {
         // Clean up auto-refresh
-        if (this.refreshInterval) {
-            window.clearInterval(this.refreshInterval);
-            this.refreshInterval = null;
-        }
+        this.stopAutoRefresh();
         
         // Unmount React component
         if (this.root) {
@@ -86,42 +381,159 @@ export class KanbanView extends ItemView {
         if (!this.root) return;
 
         try {
-            // Handle task movement
-            const handleTaskMove = async (taskId: string, newTag: string): Promise<void> => {
+            if (this.fileBoardError) {
+                throw new Error(this.fileBoardError);
+            }
+            const boardSettings = this.getBoardSettings();
+            
+            // Handle task movement; write failures (e.g. conflicts) propagate to the board
+            const handleTaskMove = async (taskId: string, targetColumn: KanbanColumn, laneKey?: string): Promise<WriteRevision> => {
+                // Find the task through DatacoreSync
+                const task = await this.requireIndexedTask(taskId);
+                
+                // Rule-based columns write their rule back to the task line, others swap the status tag;
+                // a lane change rewrites the lane key in the same write, so the move is one history entry
+                const swimlanes = boardSettings.swimlanes;
+                const changes = await this.editTaskLine(task, line => {
+                    const moved = moveLineToColumn(line, targetColumn, boardSettings.columns);
+                    return laneKey !== undefined && isSwimlaneEnabled(swimlanes) ? rewriteLaneKey(moved, swimlanes, laneKey) : moved;
+                });
+                this.recordOperation({ kind: 'status', label: `Moved "${task.text}" to ${targetColumn.name}`, changes });
+                return this.refreshAfterWrite(changes.map(change => change.path));
+            };
+
+            // Handle reordering within a manually ordered column
+            const handleTaskReorder = async (
+                taskIds: string[],
+                column: KanbanColumn,
+                orderedTaskIds: string[],
+                targetIndex: number
+            ): Promise<WriteRevision> => {
+                const tasks = await this.plugin.datacoreSync.getTasks();
+                const tasksById = new Map(tasks.map(t => [t.id, t]));
+                const orderedTasks = orderedTaskIds
+                    .map(id => tasksById.get(id))
+                    .filter((t): t is TaskItem => t !== undefined);
+                
+                // Notes written before a failing one keep their changes, so record them either way
+                const changes: LineChange[] = [];
+                const label = taskIds.length > 1 ? `${taskIds.length} tasks` : `"${tasksById.get(taskIds[0] ?? '')?.text ?? 'task'}"`;
                 try {
-                    // Find the task through DatacoreSync
-                    const tasks = await this.plugin.datacoreSync.getTasks();
-                    const task = tasks.find(t => t.id === taskId);
-                    
-                    if (task) {
-                        await this.plugin.tagManager.updateTaskStatus(task, newTag);
-                        
-                        // Trigger a refresh after a short delay to allow file changes to propagate
-                        setTimeout(() => {
-                            this.renderComponent();
-                        }, 100);
-                    }
-                } catch (error) {
-                    console.error('Failed to move task:', error);
-                    // You could show a notice here
-                    // new Notice(`Failed to move task: ${error.message}`);
+                    await this.reorderTasks(orderedTasks, taskIds, column, targetIndex, changes);
+                } finally {
+                    this.recordOperation({ kind: 'reorder', label: `Reordered ${label} in ${column.name}`, changes });
+                }
+                return this.refreshAfterWrite(changes.map(change => change.path));
+            };
+
+            // Apply a bulk action to the selected cards, writing each file once
+            const handleBulkAction = async (taskIds: string[], action: BulkAction): Promise<WriteRevision> => {
+                const ids = new Set(taskIds);
+                const tasks = (await this.plugin.datacoreSync.getTasks()).filter(t => ids.has(t.id));
+                const swimlanes = boardSettings.swimlanes;
+                const edit = createBulkLineEdit(action, {
+                    columns: boardSettings.columns,
+                    ruleContext: createRuleContext(boardSettings.columns),
+                    rewriteLane: isSwimlaneEnabled(swimlanes) ? (line, laneKey) => rewriteLaneKey(line, swimlanes, laneKey) : undefined
+                });
+                
+                // Notes written before a failing one keep their changes, so record them either way
+                const changes: LineChange[] = [];
+                try {
+                    await this.editTaskLines(tasks, edit, changes);
+                } finally {
+                    this.recordOperation({
+                        kind: getBulkOperationKind(action),
+                        label: describeBulkAction(action, tasks.length, boardSettings.columns),
+                        changes
+                    });
                 }
+                return this.refreshAfterWrite(changes.map(change => change.path));
+            };
+
+            // Write an inline card edit back to the task line
+            const handleTaskEdit = async (taskId: string, edit: TaskEdit): Promise<WriteRevision> => {
+                const task = await this.requireIndexedTask(taskId);
+                
+                const changes = await this.editTaskLine(task, line => applyTaskEdit(line, edit));
+                this.recordOperation({ kind: 'edit', label: describeTaskEdit(edit, task.text), changes }, false);
+                return this.refreshAfterWrite(changes.map(change => change.path));
+            };
+
+            // Add a task typed into a column header to the board's quick-add note
+            const handleQuickAdd = async (column: KanbanColumn, text: string, laneKey?: string): Promise<WriteRevision> => {
+                const swimlanes = boardSettings.swimlanes;
+                let line = createQuickAddLine(text, column, createRuleContext(boardSettings.columns));
+                if (laneKey !== undefined && isSwimlaneEnabled(swimlanes)) {
+                    line = rewriteLaneKey(line, swimlanes, laneKey);
+                }
+                
+                // A board defined in a note's frontmatter uses that note as its host
+                const target = resolveQuickAddTarget(boardSettings.quickAdd, {
+                    hostPath: this.boardFile && !isBoardFile(this.boardFile) ? this.boardFile : null,
+                    getDailyNotePath: () => getDailyNotePath(this.app)
+                });
+                await addTaskToNote(this.app.vault, target, line);
+                return this.refreshAfterWrite([target.path]);
+            };
+
+            // Open a card's note at its task line, in the pane picked by the click modifiers
+            const handleOpenTask = (task: TaskItem, paneType: SourcePaneType): Promise<void> => {
+                return openTaskSource(this.app, task, paneType);
+            };
+
+            // Preview the task's surroundings while its source link is hovered
+            const handleHoverTask = (task: TaskItem, event: MouseEvent): void => {
+                triggerTaskHover(this.app.workspace, event, task, this);
+            };
+
+            // Right-click menu of a card
+            const handleTaskMenu = (task: TaskItem, event: MouseEvent, columnCounts: Readonly<Record<string, number>>): void => {
+                this.showTaskMenu(task, event, boardSettings, columnCounts, { move: handleTaskMove, bulk: handleBulkAction });
+            };
+
+            // Urgency from the Tasks plugin integration, used by urgency-sorted columns
+            const getUrgencyScore = (task: TaskItem): number => {
+                return this.tasksIntegration.getUrgencyScore({ ...task, due: task.dueDate, isTask: true });
+            };
+
+            // Switch this leaf to another board, keeping it in the view state
+            const handleBoardChange = (boardId: string): void => {
+                if (boardId === this.fileBoard?.id) return;
+                this.leaf.setViewState({ type: VIEW_TYPE_KANBAN, state: { boardId } });
             };
 
             // Handle manual refresh
-            const handleRefresh = (): void => {
+            const handleRefresh = async (): Promise<void> => {
                 this.plugin.datacoreSync.refresh();
-                setTimeout(() => {
-                    this.renderComponent();
-                }, 100);
+                await this.renderComponent();
             };
 
+            // Moves also report failures as a Notice when enabled
+            const handleTaskMoveWithNotice = this.withErrorNotice('Failed to move task', handleTaskMove);
+            const handleTaskReorderWithNotice = this.withErrorNotice('Failed to reorder task', handleTaskReorder);
+            const handleBulkActionWithNotice = this.withErrorNotice('Failed to update tasks', handleBulkAction);
+
             // Render the React component
             this.root.render(
                 React.createElement(KanbanBoard, {
-                    settings: this.settings,
-                    onTaskMove: handleTaskMove,
+                    settings: boardSettings,
+                    boards: [...(this.fileBoard ? [this.fileBoard] : []), ...getBoards(this.settings)]
+                        .map(({ id, name }) => ({ id, name })),
+                    activeBoardId: this.getBoard().id,
+                    onBoardChange: handleBoardChange,
+                    onTaskMove: handleTaskMoveWithNotice,
+                    onTaskReorder: handleTaskReorderWithNotice,
+                    onBulkAction: handleBulkActionWithNotice,
+                    onTaskEdit: handleTaskEdit,
+                    onQuickAdd: handleQuickAdd,
+                    onOpenTask: handleOpenTask,
+                    onHoverTask: handleHoverTask,
+                    onTaskMenu: handleTaskMenu,
+                    getUrgencyScore,
                     onRefresh: handleRefresh,
+                    singleColumn: Platform.isPhone && resolveMobileLayout(boardSettings.mobileLayout) === 'single-column',
+                    commandRef: this.boardCommands,
                     className: 'obsidian-kanban-board'
                 })
             );
@@ -142,7 +554,7 @@ export class KanbanView extends ItemView {
                     React.createElement('p', { key: 'message' }, `Error: ${error.message}`),
                     React.createElement('button', {
                         key: 'retry',
-                        onClick: () => this.renderComponent(),
+                        onClick: () => this.boardFile ? this.reloadBoardFile() : this.renderComponent(),
                         style: {
                             padding: '8px 16px',
                             backgroundColor: 'var(--interactive-accent)',
@@ -157,16 +569,413 @@ export class KanbanView extends ItemView {
         }
     }
 
-    private setupAutoRefresh(): void {
-        // Auto-refresh every 30 seconds if enabled in settings
-        // You can make this configurable
-        const autoRefreshInterval = 30000; // 30 seconds
+    // Build the card menu: status, priority, dates, links, archive and delete, then
+    // the items other plugins registered; failures are reported as notices
+    private showTaskMenu(
+        task: TaskItem,
+        event: MouseEvent,
+        boardSettings: KanbanSettings,
+        // Cards per column as the board shows them (after its query, scope and archive filters)
+        columnCounts: Readonly<Record<string, number>>,
+        handlers: {
+            move: (taskId: string, column: KanbanColumn) => Promise<WriteRevision>;
+            bulk: (taskIds: string[], action: BulkAction) => Promise<WriteRevision>;
+        }
+    ): void {
+        const menu = new Menu();
+        const context = createRuleContext(boardSettings.columns);
+        const policy = boardSettings.unsortedPolicy ?? DEFAULT_UNSORTED_POLICY;
+        const current = resolveTaskColumn(task, boardSettings.columns, policy, context);
+        const run = (action: () => Promise<unknown> | unknown) => () => {
+            Promise.resolve().then(action).catch(error => {
+                console.error('Card menu action failed:', error);
+                new Notice(`Couldn't update "${task.text}": ${error.message}`);
+            });
+        };
         
-        if (autoRefreshInterval > 0) {
-            this.refreshInterval = window.setInterval(() => {
-                this.renderComponent();
-            }, autoRefreshInterval);
+        // Move to any writable column, respecting blocking WIP limits
+        for (const column of boardSettings.columns) {
+            if (isVirtualColumn(column) || !canWriteRule(getColumnRule(column))) continue;
+            menu.addItem(item => item
+                .setSection('move')
+                .setTitle(`Move to ${column.name}`)
+                .setIcon('arrow-right')
+                .setChecked(column.id === current?.id)
+                .onClick(run(async () => {
+                    if (column.id === current?.id) return;
+                    const wipError = getWipDropError(column, columnCounts[column.id] ?? 0);
+                    if (wipError) throw new Error(wipError);
+                    await handlers.move(task.id, column);
+                })));
+        }
+        
+        menu.addItem(item => item
+            .setSection('status')
+            .setTitle(task.completed ? 'Mark as not done' : 'Mark as done')
+            .setIcon(task.completed ? 'square' : 'check-square')
+            .onClick(run(async () => {
+                const changes = await this.editTaskLine(task, line => toggleTaskCompletion(line, context.today));
+                const label = task.completed ? `Reopened "${task.text}"` : `Completed "${task.text}"`;
+                this.recordOperation({ kind: 'completion', label, changes });
+                await this.refreshAfterWrite(changes.map(change => change.path));
+            })));
+        
+        for (const priority of MENU_PRIORITIES) {
+            menu.addItem(item => item
+                .setSection('priority')
+                .setTitle(`Priority: ${priority}`)
+                .setChecked(task.priority?.toLowerCase() === priority)
+                .onClick(run(() => handlers.bulk([task.id], { type: 'priority', priority }))));
+        }
+        if (task.priority) {
+            menu.addItem(item => item
+                .setSection('priority')
+                .setTitle('Clear priority')
+                .onClick(run(() => handlers.bulk([task.id], { type: 'priority', priority: null }))));
+        }
+        
+        const postpone = async (days: number): Promise<void> => {
+            let due = '';
+            const changes = await this.editTaskLine(task, line => {
+                const updated = postponeDueDate(line, days, context.today);
+                due = tokenizeTaskLine(updated)?.fields.due ?? due;
+                return updated;
+            });
+            this.recordOperation({ kind: 'edit', label: `Postponed "${task.text}" to ${due}`, changes });
+            await this.refreshAfterWrite(changes.map(change => change.path));
+        };
+        menu.addItem(item => item.setSection('date').setTitle('Postpone 1 day').setIcon('calendar-clock').onClick(run(() => postpone(1))));
+        menu.addItem(item => item.setSection('date').setTitle('Postpone 1 week').setIcon('calendar-clock').onClick(run(() => postpone(7))));
+        menu.addItem(item => item
+            .setSection('date')
+            .setTitle('Postpone by…')
+            .setIcon('calendar-clock')
+            .onClick(() => new PostponeModal(this.app, days => run(() => postpone(days))()).open()));
+        
+        menu.addItem(item => item
+            .setSection('link')
+            .setTitle('Copy block link')
+            .setIcon('link')
+            .onClick(run(async () => {
+                let blockId: string | null = null;
+                await this.editTaskLine(task, line => {
+                    const result = ensureBlockId(line);
+                    blockId = result.blockId;
+                    return result.line;
+                });
+                if (!blockId) throw new Error('the line is not a task');
+                await navigator.clipboard.writeText(this.app.fileManager.generateMarkdownLink(task.file, '', `#^${blockId}`));
+                new Notice('Copied block link');
+            })));
+        menu.addItem(item => item
+            .setSection('link')
+            .setTitle('Open source')
+            .setIcon('file-text')
+            .onClick(run(() => openTaskSource(this.app, task))));
+        
+        menu.addItem(item => item
+            .setSection('danger')
+            .setTitle('Archive')
+            .setIcon('archive')
+            .onClick(run(() => handlers.bulk([task.id], { type: 'archive' }))));
+        menu.addItem(item => item
+            .setSection('danger')
+            .setTitle('Delete task line')
+            .setIcon('trash')
+            .setWarning(true)
+            .onClick(run(async () => {
+                const changes = await this.removeTaskLine(task);
+                this.recordOperation({ kind: 'edit', label: `Deleted "${task.text}"`, changes });
+                await this.refreshAfterWrite(changes.map(change => change.path));
+            })));
+        
+        // Items registered by other plugins
+        for (const extra of cardMenuItems.getItems(task)) {
+            menu.addItem(item => {
+                item.setSection(extra.section ?? 'plugins')
+                    .setTitle(getCardMenuTitle(extra, task))
+                    .onClick(run(() => extra.onClick(task)));
+                if (extra.icon) item.setIcon(extra.icon);
+            });
+        }
+        
+        menu.showAtMouseEvent(event);
+    }
+
+    // Delete the task's source line; returns the change so it can be undone
+    private async removeTaskLine(task: TaskItem): Promise<LineChange[]> {
+        const changes: LineChange[] = [];
+        await this.writer.editFile(task.file, content => {
+            const lines = content.split('\n');
+            const line = this.locateTask(lines, task);
+            changes.push({ path: task.file.path, line, before: lines[line] ?? '', after: '', removed: true, next: hashNextLine(lines, line + 1) });
+            lines.splice(line, 1);
+            return lines.join('\n');
+        });
+        return changes;
+    }
+
+    /**
+     * Refresh the index and wait until Datacore has re-indexed the written
+     * notes; resolves to the index revision holding the write, or null when
+     * Datacore's index isn't reachable
+     */
+    private async refreshAfterWrite(paths: string[]): Promise<WriteRevision> {
+        this.plugin.datacoreSync.refresh();
+        const index = getIndexEvents(this.app);
+        if (!index) return null;
+
+        let revision = index.revision;
+        for (const path of new Set(paths)) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+            const indexed = await index.reload(file);
+            revision = Math.max(revision, indexed.$revision ?? index.revision);
+        }
+        return revision;
+    }
+
+    // Persist a manual card position, by moving the line or via the order field
+    private async reorderTasks(
+        orderedTasks: TaskItem[],
+        taskIds: readonly string[],
+        column: KanbanColumn,
+        targetIndex: number,
+        changes: LineChange[] = []
+    ): Promise<LineChange[]> {
+        if (column.orderStrategy === 'lines') {
+            // Each card of a block goes in front of the card that follows the block, or behind the one before it
+            const moving = orderedTasks.filter(t => taskIds.includes(t.id));
+            const others = orderedTasks.filter(t => !taskIds.includes(t.id));
+            const index = Math.max(0, Math.min(targetIndex, others.length));
+            const moves = moving.map((task, i) => {
+                const placed = [...others.slice(0, index), ...moving.slice(0, i), ...others.slice(index), task];
+                return { task, move: planLineReorder(placed, task.id, index + i), neighbours: placed };
+            });
+            if (moves.every(({ move }) => move !== null)) {
+                for (const { task, move, neighbours } of moves) {
+                    if (move) await this.writeLineMove(task, move, neighbours, changes);
+                }
+                return changes;
+            }
+            // A neighbouring card lives in another file: fall back to the order field
+        }
+
+        const orders = new Map(planManualReorder(orderedTasks, taskIds, targetIndex).map(({ task, order }) => [task, order]));
+        return this.editTaskLines([...orders.keys()], (line, task) => setInlineField(line, ORDER_FIELD, String(orders.get(task))), changes);
+    }
+
+    // Move a task's block of lines as planned on indexed lines: both ends are re-anchored
+    // on the current content, going below all the sub-items of a card it is placed after
+    private async writeLineMove(task: TaskItem, move: LineMove, orderedTasks: TaskItem[], changes: LineChange[]): Promise<void> {
+        const sameFile = orderedTasks.filter(t => t.id !== task.id && t.file.path === move.path);
+        const neighbour = sameFile.find(t => t.line === move.beforeLine)
+            ?? sameFile.find(t => t.line === move.beforeLine - 1);
+        let moved: LineChange | null = null;
+        await this.writer.editFile(task.file, content => {
+            const lines = content.split('\n');
+            const fromLine = this.locateTask(lines, task);
+            const neighbourLine = neighbour ? this.locateTask(lines, neighbour) : null;
+            const beforeLine = neighbourLine === null
+                ? move.beforeLine
+                : neighbour?.line === move.beforeLine ? neighbourLine : getTaskBlockEnd(lines, neighbourLine);
+            const updated = moveTaskLine(content, fromLine, beforeLine);
+            if (updated !== content) {
+                // Undo and redo put the block back in front of the line it followed at either end
+                const end = getTaskBlockEnd(lines, fromLine);
+                const text = lines[fromLine] ?? '';
+                const movedTo = beforeLine > fromLine ? beforeLine - (end - fromLine) : beforeLine;
+                const next = hashNextLine(lines, end);
+                const movedNext = hashNextLine(lines, beforeLine);
+                moved = { path: task.file.path, line: fromLine, before: text, after: text, movedTo, next, movedNext };
+            }
+            return updated;
+        });
+        if (moved) changes.push(moved);
+    }
+
+    // Apply an edit to the task's source line, writing only if it changed; returns the change for the history
+    private async editTaskLine(task: TaskItem, edit: (line: string) => string): Promise<LineChange[]> {
+        return this.editTaskLines([task], edit);
+    }
+
+    /**
+     * Apply an edit to the source lines of several tasks, writing each file
+     * once. The changes of each written file are added to `changes` as soon as
+     * it is saved, so a caller can still record them when a later file fails.
+     */
+    private async editTaskLines(
+        tasks: TaskItem[],
+        edit: (line: string, task: TaskItem) => string,
+        changes: LineChange[] = []
+    ): Promise<LineChange[]> {
+        for (const [path, fileTasks] of groupTasksByPath(tasks)) {
+            const file = fileTasks[0]?.file;
+            if (!file) continue;
+            
+            const fileChanges: LineChange[] = [];
+            await this.writer.editFile(file, content => {
+                const lines = content.split('\n');
+                // Locate every task before writing, so one stale card aborts the whole file
+                const located = fileTasks.map(task => ({ task, line: this.locateTask(lines, task) }));
+                for (const { task, line } of located) {
+                    const before = lines[line] ?? '';
+                    const after = edit(before, task);
+                    lines[line] = after;
+                    if (after !== before) fileChanges.push({ path, line, before, after });
+                }
+                return lines.join('\n');
+            });
+            changes.push(...fileChanges);
         }
+        return changes;
+    }
+
+    /**
+     * Also report a failed board write as a Notice when the `errorNotices`
+     * setting is on; the board shows the failure either way
+     */
+    private withErrorNotice<A extends unknown[], R>(label: string, write: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+        return async (...args: A) => {
+            try {
+                return await write(...args);
+            } catch (error) {
+                if (this.settings.errorNotices) new Notice(`${label}: ${formatTaskError(error)}`);
+                throw error;
+            }
+        };
+    }
+
+    // Find a task the board acted on, throwing if it left the index since the board rendered
+    private async requireIndexedTask(taskId: string): Promise<TaskItem> {
+        const task = (await this.plugin.datacoreSync.getTasks()).find(t => t.id === taskId);
+        if (task) return task;
+        throw missingTaskError(taskId, path => this.app.vault.getAbstractFileByPath(path) instanceof TFile);
+    }
+
+    // Find the task's current line, throwing if it moved out of reach
+    private locateTask(lines: string[], task: TaskItem): number {
+        const anchor = getTaskAnchor(task);
+        if (!anchor) {
+            throw new TaskWriteError('parse-failure', `Task "${task.text}" has no source line`, task.file.path);
+        }
+        return requireTaskLine(lines, anchor);
+    }
+
+    // Run a keyboard command on the board; false when it doesn't apply right now
+    public runBoardCommand(command: BoardCommand, checking: boolean): boolean {
+        return this.boardCommands.current?.(command, checking) ?? false;
+    }
+
+    public canUndo(): boolean {
+        return this.history.canUndo();
+    }
+
+    public canRedo(): boolean {
+        return this.history.canRedo();
+    }
+
+    // Revert the last board operation, with the same stale-line checks as a move
+    public async undo(): Promise<void> {
+        await this.stepHistory('undo');
+    }
+
+    public async redo(): Promise<void> {
+        await this.stepHistory('redo');
+    }
+
+    private async stepHistory(direction: HistoryDirection): Promise<void> {
+        try {
+            const operation = direction === 'undo'
+                ? await this.history.undo((op, dir) => this.applyOperation(op, dir))
+                : await this.history.redo((op, dir) => this.applyOperation(op, dir));
+            if (!operation) return;
+            new Notice(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${operation.label}`);
+            await this.refreshAfterWrite(operation.changes.map(change => change.path));
+        } catch (error) {
+            console.error(`Failed to ${direction} board move:`, error);
+            new Notice(`Couldn't ${direction}: ${error.message}`);
+            this.plugin.datacoreSync.refresh();
+        }
+    }
+
+    /**
+     * Write an operation's line changes back (undo) or again (redo), one file
+     * at a time. When a file fails, the files already written are restored so
+     * the operation stays whole on the history stack for another try.
+     */
+    private async applyOperation(operation: BoardOperation, direction: HistoryDirection): Promise<void> {
+        const written: [TFile, LineChange[]][] = [];
+        try {
+            for (const [path, changes] of groupChangesByPath(operation.changes)) {
+                const file = this.app.vault.getAbstractFileByPath(path);
+                if (!(file instanceof TFile)) {
+                    throw new TaskWriteError('file-missing', `${path} no longer exists`, path);
+                }
+                await this.writer.editFile(file, content => applyLineChanges(content, changes, direction));
+                written.push([file, changes]);
+            }
+        } catch (error) {
+            const reverse = direction === 'undo' ? 'redo' : 'undo';
+            for (const [file, changes] of written.reverse()) {
+                await this.writer.editFile(file, content => applyLineChanges(content, changes, reverse)).catch(restoreError => {
+                    console.error(`Failed to restore ${file.path} after a failed ${direction}:`, restoreError);
+                });
+            }
+            throw error;
+        }
+    }
+
+    // Record an operation and, unless it was made on the card itself, offer to undo it
+    private recordOperation(operation: BoardOperation, showToast = true): void {
+        if (operation.changes.length === 0) return;
+        this.history.record(operation);
+        if (!showToast) return;
+
+        const notice = new Notice(createFragment(fragment => {
+            fragment.createSpan({ text: operation.label });
+            const button = fragment.createEl('button', { text: 'Undo', cls: 'kanban-undo-button' });
+            button.addEventListener('click', () => {
+                notice.hide();
+                this.undo();
+            });
+        }), UNDO_TOAST_DURATION);
+    }
+
+    // Catch up on polling refreshes skipped while the leaf was hidden
+    private watchVisibility(): void {
+        const catchUp = () => {
+            if (this.stale) this.requestRefresh();
+        };
+        this.registerEvent(this.app.workspace.on('layout-change', catchUp));
+        this.registerEvent(this.app.workspace.on('active-leaf-change', catchUp));
+        this.registerDomEvent(document, 'visibilitychange', catchUp);
+    }
+
+    // Opt-in polling, set by the `refreshInterval` setting (0 turns it off)
+    private setupAutoRefresh(): void {
+        this.stopAutoRefresh();
+        const interval = resolveRefreshInterval(this.settings.refreshInterval);
+        if (interval > 0) {
+            this.refreshInterval = window.setInterval(() => this.requestRefresh(), interval);
+        }
+    }
+
+    private stopAutoRefresh(): void {
+        if (this.refreshInterval !== null) {
+            window.clearInterval(this.refreshInterval);
+            this.refreshInterval = null;
+        }
+    }
+
+    // Re-render unless the leaf is hidden, in which case it re-renders once shown
+    private requestRefresh(): void {
+        if (document.hidden || !this.containerEl.isShown()) {
+            this.stale = true;
+            return;
+        }
+        this.stale = false;
+        this.renderComponent();
     }
 
     // Public method to force refresh
@@ -179,4 +988,34 @@ export class KanbanView extends ItemView {
         this.settings = newSettings;
         this.renderComponent();
     }
-}
\ No newline at end of file
+}
+// Asks how many days to postpone a task by
+class PostponeModal extends Modal {
+    constructor(app: App, private onSubmit: (days: number) => void) {
+        super(app);
+    }
+
+    onOpen(): void {
+        this.titleEl.setText('Postpone task');
+        const input = this.contentEl.createEl('input', { type: 'text', placeholder: 'e.g. 3, 3d or 2w' });
+        const error = this.contentEl.createDiv({ cls: 'kanban-postpone-error' });
+        const submit = () => {
+            const days = parsePostponeAmount(input.value);
+            if (days === null) {
+                error.setText('Enter a number of days, or an amount like 3d or 2w');
+                return;
+            }
+            this.close();
+            this.onSubmit(days);
+        };
+        input.addEventListener('keydown', event => {
+            if (event.key === 'Enter') submit();
+        });
+        this.contentEl.createEl('button', { text: 'Postpone', cls: 'mod-cta' }).addEventListener('click', submit);
+        input.focus();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
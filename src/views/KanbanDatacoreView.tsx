@@ -2,124 +2,156 @@
  * Kanban Datacore View - Optimized for direct use in Obsidian notes
  * 
  * This is the Datacore-native version that can be embedded directly
- * in markdown files using Datacore codeblocks
+ * in markdown files using Datacore codeblocks. Every option can be passed
+ * as a prop (see KanbanEmbedProps), e.g. `KanbanView({ profile: 'work', scope: 'folder' })`
  */
 
-return function KanbanBoardView() {
+import { groupTasksByColumn, isVirtualColumn } from '../TaskGrouping';
+import { KanbanEmbedProps, resolveEmbedSettings } from '../EmbedOptions';
+import { filterTasksByScope, getLinkedPaths, getScopeLabel } from '../TaskScope';
+import { resolveSortKeys, sortColumnTasks } from '../CardOrdering';
+import { getTaskDueDate, getTaskLineNumber, getTaskPath } from '../TaskFields';
+import { getTaskAnchor } from '../TaskLocator';
+import { getTaskWriter } from '../TaskWriter';
+import { formatTaskError, isRetryableError, missingTaskError, TaskWriteError } from '../TaskErrors';
+import { canWriteRule, createRuleContext, getColumnRule, moveLineToColumn } from '../ColumnRules';
+import { isArchivedTask } from '../BulkActions';
+import { getWipDropError } from '../WipLimits';
+import { addTaskToNote, createQuickAddLine, getDailyNotePath, resolveQuickAddTarget } from '../QuickAdd';
+import { getSourcePaneType, openTaskSource, triggerTaskHover } from '../TaskNavigation';
+
+return function KanbanBoardView(props: KanbanEmbedProps = {}) {
+    // Kanban configuration from props, the named profile and the defaults
+    const kanbanSettings = dc.useMemo(
+        () => resolveEmbedSettings(props, window.DatacoreKanbanPlugin?.getSettings()),
+        [props.query, props.columns, props.title, props.showDueDate, props.showPriority,
+            props.showTags, props.cardMaxHeight, props.scope, props.profile, props.quickAdd]
+    );
+
     // Datacore query with live updates and caching
-    const tasks = dc.useQuery('@task', { cache: true });
+    const queriedTasks = dc.useQuery(kanbanSettings.query, { cache: true });
     
     // Get current file context for scoped queries
     const currentFile = dc.useCurrentFile();
+    const currentPath = currentFile?.$path ?? currentFile?.path;
     
-    // Kanban configuration (could be customizable via props)
-    const kanbanSettings = dc.useMemo(() => ({
-        columns: [
-            {
-                id: 'todo',
-                name: 'To Do',
-                tag: '#todo',
-                color: '#ff6b6b'
-            },
-            {
-                id: 'doing',
-                name: 'In Progress', 
-                tag: '#doing',
-                color: '#4ecdc4'
-            },
-            {
-                id: 'waiting',
-                name: 'Waiting',
-                tag: '#waiting',
-                color: '#f9ca24'
-            },
-            {
-                id: 'done',
-                name: 'Done',
-                tag: '#done',
-                color: '#45b7d1'
-            }
-        ],
-        cardMaxHeight: 200,
-        showDueDate: true,
-        showPriority: true,
-        showTags: true
-    }), []);
+    // Restrict the board to the tasks related to the host note when scoped, without archived tasks
+    const tasks = dc.useMemo(() => {
+        if (!queriedTasks) return queriedTasks;
+        const linkedPaths = kanbanSettings.scope === 'links' && currentPath
+            ? getLinkedPaths(dc.app.metadataCache.resolvedLinks, currentPath)
+            : undefined;
+        const scoped = filterTasksByScope(queriedTasks, kanbanSettings.scope, { path: currentPath, linkedPaths });
+        return scoped.filter(task => !isArchivedTask(task));
+    }, [queriedTasks, kanbanSettings.scope, currentPath]);
 
-    // Memoized task filtering and grouping
-    const tasksByColumn = dc.useMemo(() => {
-        const grouped = {};
-        
-        // Initialize columns
-        kanbanSettings.columns.forEach(column => {
-            grouped[column.id] = [];
-        });
-        
-        // Filter and group tasks
-        tasks.forEach(task => {
-            // Skip if task doesn't have the required properties
-            if (!task.tags || !Array.isArray(task.tags)) return;
-            
-            // Find matching column
-            const matchingColumn = kanbanSettings.columns.find(column => 
-                task.tags.includes(column.tag)
-            );
-            
-            if (matchingColumn) {
-                grouped[matchingColumn.id].push(task);
-            }
+    // Memoized task grouping and column sort, shared with the plugin's KanbanBoard
+    const taskGroups = dc.useMemo(() => {
+        const groups = groupTasksByColumn(tasks, kanbanSettings.columns, kanbanSettings.unsortedPolicy);
+        groups.columns.forEach(column => {
+            groups.tasksByColumn[column.id] = sortColumnTasks(groups.tasksByColumn[column.id] || [], resolveSortKeys(column));
         });
-        
-        return grouped;
+        return groups;
     }, [tasks, kanbanSettings]);
+    const tasksByColumn = taskGroups.tasksByColumn;
 
     // Column statistics
     const columnStats = dc.useMemo(() => {
         const stats = {};
-        kanbanSettings.columns.forEach(column => {
+        taskGroups.columns.forEach(column => {
             stats[column.id] = tasksByColumn[column.id]?.length || 0;
         });
         return stats;
-    }, [tasksByColumn, kanbanSettings]);
+    }, [taskGroups, tasksByColumn]);
+
+    // Failed writes (e.g. the note changed under a move), shown above the columns;
+    // `retry` holds the move to run again when trying again can help
+    const [writeError, setWriteError] = React.useState(null);
 
-    // Task update handler using Datacore file operations
-    const handleTaskMove = React.useCallback(async (taskId, newTag) => {
+    // Reason a card can't be dropped into a column, checked as the plugin's board does
+    const getDropError = React.useCallback((taskId, column) => {
+        if (isVirtualColumn(column)) {
+            return `"${column.name}" only collects tasks that match no column`;
+        }
+        if (!canWriteRule(getColumnRule(column))) {
+            return `Tasks can't be moved into "${column.name}": its rule can't be written to the task`;
+        }
+        const entering = !(tasksByColumn[column.id] || []).some(t => t.id === taskId);
+        return entering ? getWipDropError(column, columnStats[column.id] || 0) : null;
+    }, [tasksByColumn, columnStats]);
+
+    // Task update handler, through the plugin's shared atomic write path
+    const handleTaskMove = React.useCallback(async (taskId, column) => {
+        const dropError = getDropError(taskId, column);
+        if (dropError) {
+            setWriteError({ message: dropError });
+            return;
+        }
+        
         try {
-            // Find the task
             const task = tasks.find(t => t.id === taskId);
-            if (!task || !task.file) return;
+            const anchor = task && getTaskAnchor(task);
+            const noteExists = path => dc.app.vault.getAbstractFileByPath(path) !== null;
+            if (!anchor || !anchor.path) throw missingTaskError(taskId, noteExists);
             
-            // Read current file content
-            const content = await dc.readFile(task.file.path);
-            if (!content) return;
+            const file = dc.app.vault.getAbstractFileByPath(anchor.path);
+            if (!file) throw new TaskWriteError('file-missing', `${anchor.path} no longer exists`, anchor.path);
             
-            // Update task tags in the content
-            const lines = content.split('\n');
-            const taskLine = lines[task.line - 1]; // Line numbers are 1-based
-            
-            if (taskLine) {
-                // Remove old status tags and add new one
-                const statusTags = kanbanSettings.columns.map(col => col.tag);
-                let updatedLine = taskLine;
-                
-                // Remove existing status tags
-                statusTags.forEach(tag => {
-                    updatedLine = updatedLine.replace(new RegExp(`\\s*${tag}`, 'g'), '');
-                });
-                
-                // Add new tag
-                updatedLine = `${updatedLine.trim()} ${newTag}`;
-                
-                // Update the line
-                lines[task.line - 1] = updatedLine;
-                
-                // Write back to file
-                await dc.writeFile(task.file.path, lines.join('\n'));
-            }
+            // Write the column's rule or status tag on the task's current line, as the plugin's board does
+            await getTaskWriter(dc.app.vault).editTaskLine(file, anchor, line => moveLineToColumn(line, column, kanbanSettings.columns));
+            setWriteError(null);
         } catch (error) {
             console.error('Failed to update task:', error);
+            setWriteError({
+                message: `Failed to move task: ${formatTaskError(error)}`,
+                retry: isRetryableError(error) ? { taskId, column } : null
+            });
         }
-    }, [tasks, kanbanSettings]);
+    }, [tasks, kanbanSettings, getDropError]);
+
+    // Column whose quick-add input is open, the error shown under it and the text typed so far
+    const [quickAddColumn, setQuickAddColumn] = React.useState(null);
+    const [quickAddError, setQuickAddError] = React.useState(null);
+    const quickAddDraft = React.useRef('');
+
+    // Add a task typed into a column header, to the host note unless configured otherwise
+    const handleQuickAdd = React.useCallback(async (column, text) => {
+        if (!text.trim()) return false;
+        try {
+            const line = createQuickAddLine(text, column, createRuleContext(kanbanSettings.columns));
+            const target = resolveQuickAddTarget(kanbanSettings.quickAdd, {
+                hostPath: currentPath,
+                getDailyNotePath: () => getDailyNotePath(dc.app)
+            });
+            await addTaskToNote(dc.app.vault, target, line);
+            quickAddDraft.current = '';
+            setQuickAddError(null);
+            return true;
+        } catch (error) {
+            console.error('Failed to add task:', error);
+            setQuickAddError(error.message);
+            return false;
+        }
+    }, [kanbanSettings, currentPath]);
+
+    const toggleQuickAdd = React.useCallback((columnId) => {
+        setQuickAddColumn(prev => prev === columnId ? null : columnId);
+        setQuickAddError(null);
+        quickAddDraft.current = '';
+    }, []);
+
+    // Open a card's note at its task line; Mod-click opens a tab, Mod+Alt-click a split
+    const openTask = React.useCallback((e, task) => {
+        e.preventDefault();
+        e.stopPropagation();
+        openTaskSource(dc.app, task, getSourcePaneType(e)).catch(error => {
+            console.error('Failed to open task:', error);
+            setWriteError({ message: `Couldn't open ${getTaskPath(task)}: ${error.message}` });
+        });
+    }, []);
+
+    // Hover popovers of the embed attach to this holder, as they would to a view
+    const hoverParent = React.useRef({ hoverPopover: null }).current;
 
     // Handle drag and drop
     const [draggedTask, setDraggedTask] = React.useState(null);
@@ -131,13 +163,13 @@ return function KanbanBoardView() {
     const handleDrop = React.useCallback(async (columnId) => {
         if (!draggedTask) return;
         
-        const column = kanbanSettings.columns.find(col => col.id === columnId);
+        const column = taskGroups.columns.find(col => col.id === columnId);
         if (column) {
-            await handleTaskMove(draggedTask, column.tag);
+            await handleTaskMove(draggedTask, column);
         }
         
         setDraggedTask(null);
-    }, [draggedTask, handleTaskMove, kanbanSettings]);
+    }, [draggedTask, handleTaskMove, taskGroups]);
 
     // Task Card component
     const TaskCard = ({ task }) => (
@@ -146,6 +178,8 @@ return function KanbanBoardView() {
             draggable
             onDragStart={() => handleDragStart(task.id)}
             style={{
+                maxHeight: `${kanbanSettings.cardMaxHeight}px`,
+                overflow: 'hidden',
                 padding: '8px 12px',
                 margin: '6px 0',
                 backgroundColor: 'var(--background-secondary)',
@@ -163,6 +197,18 @@ return function KanbanBoardView() {
                 {task.text || task.task || 'Untitled Task'}
             </div>
             
+            {((kanbanSettings.showDueDate && getTaskDueDate(task)) || (kanbanSettings.showPriority && task.priority)) && (
+                <div className="task-meta" style={{ 
+                    display: 'flex', 
+                    gap: '8px',
+                    fontSize: '11px',
+                    color: 'var(--text-muted)'
+                }}>
+                    {kanbanSettings.showDueDate && getTaskDueDate(task) && <span>📅 {getTaskDueDate(task)}</span>}
+                    {kanbanSettings.showPriority && task.priority && <span>⚡ {task.priority}</span>}
+                </div>
+            )}
+            
             {kanbanSettings.showTags && task.tags && task.tags.length > 0 && (
                 <div className="task-tags" style={{ 
                     display: 'flex', 
@@ -189,22 +235,36 @@ return function KanbanBoardView() {
                 </div>
             )}
             
-            {task.file && (
-                <div className="task-source" style={{
-                    fontSize: '11px',
-                    color: 'var(--text-muted)',
-                    marginTop: '6px',
-                    display: 'flex',
-                    justifyContent: 'space-between',
-                    alignItems: 'center'
-                }}>
-                    <span>{task.file.name}</span>
-                    {task.line && <span>Line {task.line}</span>}
+            {getTaskPath(task) && (
+                <div
+                    className="task-source task-source-link"
+                    role="link"
+                    tabIndex={0}
+                    title="Open at the task line (Ctrl/Cmd-click: new tab, Ctrl/Cmd+Alt-click: split)"
+                    onClick={(e) => openTask(e, task)}
+                    onAuxClick={(e) => e.button === 1 && openTask(e, task)}
+                    onKeyDown={(e) => e.key === 'Enter' && openTask(e, task)}
+                    onMouseOver={(e) => triggerTaskHover(dc.app.workspace, e.nativeEvent, task, hoverParent)}
+                    style={{
+                        cursor: 'pointer',
+                        fontSize: '11px',
+                        color: 'var(--text-muted)',
+                        marginTop: '6px',
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center'
+                    }}
+                >
+                    <span>{task.file?.name ?? getTaskPath(task)}</span>
+                    {getTaskLineNumber(task) !== null && <span>Line {getTaskLineNumber(task) + 1}</span>}
                 </div>
             )}
         </div>
     );
 
+    // Tasks can be added to columns whose rule can be written to a new task
+    const canQuickAdd = (column) => !isVirtualColumn(column) && canWriteRule(getColumnRule(column));
+
     // Column component
     const KanbanColumn = ({ column, tasks }) => (
         <div 
@@ -250,8 +310,44 @@ return function KanbanBoardView() {
                 }}>
                     {tasks.length}
                 </span>
+                {canQuickAdd(column) && (
+                    <button
+                        className="datacore-kanban-add"
+                        onClick={() => toggleQuickAdd(column.id)}
+                        aria-label={`Add task to ${column.name}`}
+                        aria-expanded={quickAddColumn === column.id}
+                        title={`Add task to ${column.name}`}
+                    >
+                        +
+                    </button>
+                )}
             </div>
             
+            {canQuickAdd(column) && quickAddColumn === column.id && (
+                <div className="datacore-kanban-quick-add" style={{ padding: '8px 12px 0' }}>
+                    <input
+                        type="text"
+                        defaultValue={quickAddDraft.current}
+                        placeholder="New task, e.g. Call Sam 📅 tomorrow ⏫"
+                        aria-label={`New task in ${column.name}`}
+                        autoFocus
+                        style={{ width: '100%' }}
+                        onChange={(e) => { quickAddDraft.current = e.currentTarget.value; }}
+                        onKeyDown={async (e) => {
+                            if (e.key === 'Escape') toggleQuickAdd(column.id);
+                            if (e.key !== 'Enter') return;
+                            const input = e.currentTarget;
+                            if (await handleQuickAdd(column, input.value)) input.value = '';
+                        }}
+                    />
+                    {quickAddError && (
+                        <div role="alert" style={{ color: 'var(--text-error)', fontSize: '12px', marginTop: '4px' }}>
+                            {quickAddError}
+                        </div>
+                    )}
+                </div>
+            )}
+            
             <div 
                 className="column-content"
                 style={{
@@ -316,7 +412,7 @@ return function KanbanBoardView() {
             }}>
                 <div>
                     <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
-                        Task Board
+                        {kanbanSettings.title}
                     </h2>
                     <p style={{ 
                         margin: '4px 0 0 0', 
@@ -329,19 +425,48 @@ return function KanbanBoardView() {
                 
                 <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
                     {currentFile && (
-                        <span style={{ 
-                            fontSize: '12px', 
-                            color: 'var(--text-muted)',
-                            padding: '4px 8px',
-                            backgroundColor: 'var(--background-primary)',
-                            borderRadius: '4px'
-                        }}>
-                            📄 {currentFile.name}
+                        <span 
+                            className="datacore-kanban-scope"
+                            title={`Scope: ${kanbanSettings.scope}`}
+                            style={{ 
+                                fontSize: '12px', 
+                                color: 'var(--text-muted)',
+                                padding: '4px 8px',
+                                backgroundColor: 'var(--background-primary)',
+                                borderRadius: '4px'
+                            }}
+                        >
+                            {getScopeLabel(kanbanSettings.scope, currentPath)}
                         </span>
                     )}
                 </div>
             </div>
             
+            {writeError && (
+                <div
+                    className="datacore-kanban-error"
+                    role="alert"
+                    style={{
+                        padding: '8px 20px',
+                        color: 'var(--text-error)',
+                        backgroundColor: 'var(--background-modifier-error)',
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center'
+                    }}
+                >
+                    <span>⚠️ {writeError.message}</span>
+                    <span>
+                        {writeError.retry && (
+                            <button onClick={() => handleTaskMove(writeError.retry.taskId, writeError.retry.column)}>
+                                Retry
+                            </button>
+                        )}
+                        <button onClick={() => setWriteError(null)} aria-label="Dismiss error">×</button>
+                    </span>
+                </div>
+            )}
+            
             {/* Kanban columns */}
             <div style={{
                 display: 'flex',
@@ -350,7 +475,7 @@ return function KanbanBoardView() {
                 overflowX: 'auto',
                 minHeight: '400px'
             }}>
-                {kanbanSettings.columns.map(column => (
+                {taskGroups.columns.map(column => (
                     <KanbanColumn
                         key={column.id}
                         column={column}
@@ -371,7 +496,7 @@ return function KanbanBoardView() {
                 color: 'var(--text-muted)'
             }}>
                 <span>📊 Total: {tasks.length}</span>
-                {kanbanSettings.columns.map(column => (
+                {taskGroups.columns.map(column => (
                     <span key={column.id}>
                         <span style={{ color: column.color }}>●</span> {column.name}: {columnStats[column.id]}
                     </span>
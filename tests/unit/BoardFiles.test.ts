@@ -0,0 +1,107 @@
+import {
+  getBoardFilePath,
+  getFileBoardId,
+  hasBoardFrontmatter,
+  isBoardFile,
+  parseBoardFrontmatter,
+  parseBoardJson,
+  serializeBoard
+} from '../../src/BoardFiles';
+import { BoardDefinition } from '../../src/Boards';
+import { sampleKanbanSettings } from '../fixtures/sample-tasks';
+
+describe('BoardFiles', () => {
+  const path = 'Projects/Launch.kanban.json';
+
+  describe('parseBoardJson', () => {
+    it('should read a board and derive its id and name from the path', () => {
+      // Arrange
+      const content = JSON.stringify({ datacoreQuery: '@task', columns: sampleKanbanSettings.columns, showTags: false });
+
+      // Act
+      const board = parseBoardJson(content, path);
+
+      // Assert
+      expect(board.id).toBe(getFileBoardId(path));
+      expect(board.name).toBe('Launch');
+      expect(board.columns).toHaveLength(4);
+      expect(board.showTags).toBe(false);
+    });
+
+    it('should fill in column ids and colors', () => {
+      const content = JSON.stringify({ datacoreQuery: '@task', columns: [{ name: 'In Review', tag: '#review' }] });
+      const [column] = parseBoardJson(content, path).columns;
+      expect(column.id).toBe('in-review');
+      expect(column.color).toBe('var(--text-muted)');
+    });
+
+    it('should read the mobile layout, defaulting unknown values to columns', () => {
+      const read = (mobileLayout: unknown) =>
+        parseBoardJson(JSON.stringify({ datacoreQuery: '@task', columns: sampleKanbanSettings.columns, mobileLayout }), path).mobileLayout;
+      expect(read('single-column')).toBe('single-column');
+      expect(read('carousel')).toBe('columns');
+    });
+
+    it('should report invalid files with their path', () => {
+      expect(() => parseBoardJson('{ nope', path)).toThrow(`${path} is not valid JSON`);
+      expect(() => parseBoardJson('[]', path)).toThrow('must contain a JSON object');
+      expect(() => parseBoardJson('{"columns": []}', path)).toThrow('has no board query');
+      expect(() => parseBoardJson('{"datacoreQuery": "@task", "columns": [{"name": "Todo"}]}', path))
+        .toThrow('column "Todo" needs a tag or a rule');
+    });
+  });
+
+  describe('parseBoardFrontmatter', () => {
+    it('should map kanban-* keys onto the board', () => {
+      // Arrange
+      const frontmatter = {
+        title: 'Launch plan',
+        'kanban-name': 'Launch',
+        'kanban-query': '@task and path("Launch")',
+        'kanban-columns': [{ name: 'Todo', tag: '#todo' }],
+        'kanban-card-max-height': 120
+      };
+
+      // Act
+      const board = parseBoardFrontmatter(frontmatter, 'Launch plan.md');
+
+      // Assert
+      expect(board.name).toBe('Launch');
+      expect(board.datacoreQuery).toBe('@task and path("Launch")');
+      expect(board.cardMaxHeight).toBe(120);
+    });
+
+    it('should detect notes that define a board', () => {
+      expect(hasBoardFrontmatter({ 'kanban-query': '@task' })).toBe(true);
+      expect(hasBoardFrontmatter({ title: 'Note' })).toBe(false);
+      expect(hasBoardFrontmatter(undefined)).toBe(false);
+    });
+  });
+
+  describe('serializeBoard', () => {
+    it('should round-trip through parseBoardJson without the id', () => {
+      // Arrange
+      const board: BoardDefinition = { id: 'work', name: 'Work', datacoreQuery: '@task', columns: sampleKanbanSettings.columns };
+
+      // Act
+      const content = serializeBoard(board);
+
+      // Assert
+      expect(JSON.parse(content).id).toBeUndefined();
+      expect(parseBoardJson(content, path)).toEqual({ ...board, id: getFileBoardId(path) });
+    });
+  });
+
+  describe('getBoardFilePath', () => {
+    it('should avoid existing files and strip unsafe characters', () => {
+      const existing = new Set(['Boards/Work.kanban.json']);
+      expect(getBoardFilePath('Work', 'Boards', p => existing.has(p))).toBe('Boards/Work 2.kanban.json');
+      expect(getBoardFilePath('Q1: Plan', '/', () => false)).toBe('Q1 Plan.kanban.json');
+    });
+  });
+
+  it('should recognise board files', () => {
+    expect(isBoardFile(path)).toBe(true);
+    expect(isBoardFile('Projects/data.json')).toBe(false);
+  });
+});
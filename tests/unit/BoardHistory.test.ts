@@ -0,0 +1,182 @@
+import {
+  applyLineChanges,
+  BoardHistory,
+  BoardOperation,
+  groupChangesByPath,
+  hashNextLine,
+  LineChange
+} from '../../src/BoardHistory';
+
+describe('BoardHistory', () => {
+  const path = 'tasks.md';
+
+  function operation(label: string, changes: LineChange[] = [{ path, line: 0, before: '- [ ] A #todo', after: '- [ ] A #doing' }]): BoardOperation {
+    return { kind: 'status', label, changes };
+  }
+
+  describe('stack', () => {
+    it('should undo and redo in order', async () => {
+      // Arrange
+      const history = new BoardHistory();
+      const applied: string[] = [];
+      const apply = async (op: BoardOperation, direction: string) => { applied.push(`${direction} ${op.label}`); };
+      history.record(operation('first'));
+      history.record(operation('second'));
+
+      // Act
+      await history.undo(apply);
+      await history.undo(apply);
+      await history.redo(apply);
+
+      // Assert
+      expect(applied).toEqual(['undo second', 'undo first', 'redo first']);
+      expect(history.canUndo()).toBe(true);
+      expect(history.canRedo()).toBe(true);
+    });
+
+    it('should clear the redo stack on a new operation', async () => {
+      const history = new BoardHistory();
+      history.record(operation('first'));
+      await history.undo(async () => undefined);
+      history.record(operation('second'));
+      expect(history.canRedo()).toBe(false);
+    });
+
+    it('should keep an operation that fails to apply on its stack', async () => {
+      // Arrange
+      const history = new BoardHistory();
+      history.record(operation('first'));
+
+      // Act
+      const result = history.undo(async () => { throw new Error('conflict'); });
+
+      // Assert
+      await expect(result).rejects.toThrow('conflict');
+      expect(history.canUndo()).toBe(true);
+      expect(history.canRedo()).toBe(false);
+    });
+
+    it('should ignore empty operations and keep at most the limit', async () => {
+      const history = new BoardHistory(2);
+      history.record(operation('empty', []));
+      expect(history.canUndo()).toBe(false);
+
+      ['a', 'b', 'c'].forEach(label => history.record(operation(label)));
+      const undone: string[] = [];
+      while (history.canUndo()) await history.undo(async op => { undone.push(op.label); });
+      expect(undone).toEqual(['c', 'b']);
+    });
+
+    it('should resolve to null with nothing to undo', async () => {
+      await expect(new BoardHistory().undo(async () => undefined)).resolves.toBeNull();
+    });
+  });
+
+  describe('applyLineChanges', () => {
+    const content = ['# Tasks', '- [ ] A #doing', '- [ ] B #todo'].join('\n');
+    const change: LineChange = { path, line: 1, before: '- [ ] A #todo', after: '- [ ] A #doing' };
+
+    it('should restore the before text on undo and the after text on redo', () => {
+      const undone = applyLineChanges(content, [change], 'undo');
+      expect(undone).toBe(['# Tasks', '- [ ] A #todo', '- [ ] B #todo'].join('\n'));
+      expect(applyLineChanges(undone, [change], 'redo')).toBe(content);
+    });
+
+    it('should find a line that shifted since the operation', () => {
+      const shifted = `Intro\n\n${content}`;
+      expect(applyLineChanges(shifted, [change], 'undo')).toBe(`Intro\n\n# Tasks\n- [ ] A #todo\n- [ ] B #todo`);
+    });
+
+    it('should refuse to overwrite a line edited since the operation', () => {
+      const edited = content.replace('A #doing', 'A renamed #doing');
+      expect(() => applyLineChanges(edited, [change], 'undo')).toThrow('no longer at tasks.md:2');
+    });
+
+    it('should undo chained edits of the same line in reverse', () => {
+      // Arrange
+      const changes: LineChange[] = [
+        { path, line: 1, before: '- [ ] A #todo', after: '- [ ] A #doing' },
+        { path, line: 1, before: '- [ ] A #doing', after: '- [ ] A #doing #team/web' }
+      ];
+      const current = content.replace('A #doing', 'A #doing #team/web');
+
+      // Act
+      const undone = applyLineChanges(current, changes, 'undo');
+
+      // Assert
+      expect(undone).toBe(['# Tasks', '- [ ] A #todo', '- [ ] B #todo'].join('\n'));
+    });
+
+    it('should move a reordered line and its sub-items back', () => {
+      // Arrange: "A" with a child was moved below "B"
+      const moved = ['- [ ] B', '- [ ] A', '  - [ ] A child', '- [ ] C'].join('\n');
+      const move: LineChange = { path, line: 0, before: '- [ ] A', after: '- [ ] A', movedTo: 1 };
+
+      // Act
+      const undone = applyLineChanges(moved, [move], 'undo');
+
+      // Assert
+      expect(undone).toBe(['- [ ] A', '  - [ ] A child', '- [ ] B', '- [ ] C'].join('\n'));
+      expect(applyLineChanges(undone, [move], 'redo')).toBe(moved);
+    });
+
+    it('should move a line back in front of the line it followed after edits around it', () => {
+      // Arrange: "A" was moved below "C", then a line was added above "B"
+      const original = ['- [ ] A', '- [ ] B', '- [ ] C'];
+      const move: LineChange = {
+        path, line: 0, before: '- [ ] A', after: '- [ ] A', movedTo: 2,
+        next: hashNextLine(original, 1), movedNext: hashNextLine(original, 3)
+      };
+      const edited = ['- [ ] New', '- [ ] B', '- [ ] C', '- [ ] A'].join('\n');
+
+      // Act
+      const undone = applyLineChanges(edited, [move], 'undo');
+
+      // Assert
+      expect(undone).toBe(['- [ ] New', '- [ ] A', '- [ ] B', '- [ ] C'].join('\n'));
+      expect(applyLineChanges(undone, [move], 'redo')).toBe(edited);
+    });
+  });
+
+  describe('removed lines', () => {
+    it('should put a deleted line back on undo and delete it again on redo', () => {
+      // Arrange
+      const content = ['# Tasks', '- [ ] A #doing', '- [ ] B #todo'].join('\n');
+      const deleted = ['# Tasks', '- [ ] B #todo'].join('\n');
+      const removal: LineChange = { path, line: 1, before: '- [ ] A #doing', after: '', removed: true };
+
+      // Act
+      const undone = applyLineChanges(deleted, [removal], 'undo');
+
+      // Assert
+      expect(undone).toBe(content);
+      expect(applyLineChanges(undone, [removal], 'redo')).toBe(deleted);
+    });
+
+    it('should put a deleted line back in front of the line that followed it', () => {
+      // Arrange: lines were added above the deleted task since
+      const removal: LineChange = { path, line: 1, before: '- [ ] A #doing', after: '', removed: true, next: hashNextLine(['- [ ] B #todo'], 0) };
+      const current = ['# Tasks', 'Intro', '', '- [ ] B #todo'].join('\n');
+
+      // Act
+      const undone = applyLineChanges(current, [removal], 'undo');
+
+      // Assert
+      expect(undone).toBe(['# Tasks', 'Intro', '', '- [ ] A #doing', '- [ ] B #todo'].join('\n'));
+    });
+
+    it('should refuse to restore a line whose neighbour is gone', () => {
+      const removal: LineChange = { path, line: 1, before: '- [ ] A #doing', after: '', removed: true, next: hashNextLine(['- [ ] B #todo'], 0) };
+      expect(() => applyLineChanges(['# Tasks', '- [ ] C #todo'].join('\n'), [removal], 'undo')).toThrow('changed since the board operation');
+    });
+  });
+
+  describe('groupChangesByPath', () => {
+    it('should group changes per file in order', () => {
+      const a1 = { path: 'a.md', line: 0, before: 'x', after: 'y' };
+      const b1 = { path: 'b.md', line: 0, before: 'x', after: 'y' };
+      const a2 = { path: 'a.md', line: 3, before: 'x', after: 'y' };
+      expect([...groupChangesByPath([a1, b1, a2])]).toEqual([['a.md', [a1, a2]], ['b.md', [b1]]]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  findTaskFocus,
+  getCellKey,
+  KeyboardCell,
+  moveBoardFocus,
+  moveDropTarget,
+  resolveBoardFocus
+} from '../../src/BoardKeyboard';
+
+describe('BoardKeyboard', () => {
+  const cell = (columnId: string, taskIds: string[], laneKey?: string): KeyboardCell => ({
+    key: getCellKey(columnId, laneKey),
+    columnId,
+    laneKey,
+    taskIds
+  });
+  const rows = [[cell('todo', ['a', 'b', 'c']), cell('doing', ['d']), cell('done', [])]];
+  const laneRows = [
+    [cell('todo', ['a'], 'alpha'), cell('doing', [], 'alpha')],
+    [cell('todo', ['b', 'c'], 'beta'), cell('doing', ['d'], 'beta')]
+  ];
+
+  describe('getCellKey', () => {
+    it('should key cells by column, and lane when given', () => {
+      expect(getCellKey('todo')).toBe('todo');
+      expect(getCellKey('todo', 'alpha')).toBe('todo:alpha');
+    });
+  });
+
+  describe('resolveBoardFocus', () => {
+    it('should start on the first card of the board', () => {
+      expect(resolveBoardFocus(rows, null)).toEqual({ cell: 'todo', taskId: 'a' });
+      expect(resolveBoardFocus([], null)).toBeNull();
+    });
+
+    it('should follow a card that moved to another cell', () => {
+      expect(resolveBoardFocus(rows, { cell: 'done', taskId: 'd' })).toEqual({ cell: 'doing', taskId: 'd' });
+    });
+
+    it('should stay on the cell of a card that is gone', () => {
+      expect(resolveBoardFocus(rows, { cell: 'doing', taskId: 'x' })).toEqual({ cell: 'doing', taskId: 'd' });
+      expect(resolveBoardFocus(rows, { cell: 'done', taskId: 'x' })).toEqual({ cell: 'done', taskId: null });
+    });
+  });
+
+  describe('moveBoardFocus', () => {
+    it('should move up and down within a column and stop at its ends', () => {
+      expect(moveBoardFocus(rows, { cell: 'todo', taskId: 'a' }, 'down')).toEqual({ cell: 'todo', taskId: 'b' });
+      expect(moveBoardFocus(rows, { cell: 'todo', taskId: 'a' }, 'up')).toEqual({ cell: 'todo', taskId: 'a' });
+      expect(moveBoardFocus(rows, { cell: 'todo', taskId: 'b' }, 'last')).toEqual({ cell: 'todo', taskId: 'c' });
+    });
+
+    it('should move to the neighbouring column at the same position', () => {
+      // Arrange
+      const focus = { cell: 'todo', taskId: 'c' };
+
+      // Act
+      const right = moveBoardFocus(rows, focus, 'right');
+      const empty = moveBoardFocus(rows, right, 'right');
+
+      // Assert
+      expect(right).toEqual({ cell: 'doing', taskId: 'd' });
+      expect(empty).toEqual({ cell: 'done', taskId: null });
+      expect(moveBoardFocus(rows, empty, 'left')).toEqual({ cell: 'doing', taskId: 'd' });
+    });
+
+    it('should cross into the swimlane above or below at the ends of a cell', () => {
+      expect(moveBoardFocus(laneRows, { cell: 'todo:alpha', taskId: 'a' }, 'down')).toEqual({ cell: 'todo:beta', taskId: 'b' });
+      expect(moveBoardFocus(laneRows, { cell: 'todo:beta', taskId: 'b' }, 'up')).toEqual({ cell: 'todo:alpha', taskId: 'a' });
+      expect(moveBoardFocus(laneRows, { cell: 'doing:beta', taskId: 'd' }, 'up')).toEqual({ cell: 'doing:alpha', taskId: null });
+    });
+  });
+
+  describe('moveDropTarget', () => {
+    it('should move between columns and swimlanes, staying put at the edges', () => {
+      expect(moveDropTarget(rows, 'todo', 'right')).toBe('doing');
+      expect(moveDropTarget(rows, 'todo', 'left')).toBe('todo');
+      expect(moveDropTarget(laneRows, 'doing:alpha', 'down')).toBe('doing:beta');
+      expect(moveDropTarget(laneRows, 'doing:alpha', 'first')).toBe('doing:alpha');
+    });
+  });
+
+  describe('findTaskFocus', () => {
+    it('should find the cell holding a card', () => {
+      expect(findTaskFocus(laneRows, 'c')).toEqual({ cell: 'todo:beta', taskId: 'c' });
+      expect(findTaskFocus(laneRows, 'x')).toBeNull();
+    });
+  });
+});
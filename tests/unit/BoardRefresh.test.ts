@@ -0,0 +1,53 @@
+import {
+  getIndexEvents,
+  isSameTaskList,
+  MIN_REFRESH_INTERVAL,
+  resolveRefreshInterval
+} from '../../src/BoardRefresh';
+
+describe('BoardRefresh', () => {
+  describe('isSameTaskList', () => {
+    it('should accept a new list holding the same tasks', () => {
+      // Arrange
+      const a = { id: 'a' };
+      const b = { id: 'b' };
+
+      // Act & Assert
+      expect(isSameTaskList([a, b], [a, b])).toBe(true);
+      expect(isSameTaskList(undefined, undefined)).toBe(true);
+    });
+
+    it('should detect re-indexed, added and removed tasks', () => {
+      const a = { id: 'a' };
+      expect(isSameTaskList([a], [{ id: 'a' }])).toBe(false);
+      expect(isSameTaskList([a], [a, { id: 'b' }])).toBe(false);
+      expect(isSameTaskList(undefined, [a])).toBe(false);
+    });
+  });
+
+  describe('resolveRefreshInterval', () => {
+    it('should turn polling off unless a positive interval is given', () => {
+      expect(resolveRefreshInterval(undefined)).toBe(0);
+      expect(resolveRefreshInterval(0)).toBe(0);
+      expect(resolveRefreshInterval(-5)).toBe(0);
+      expect(resolveRefreshInterval('5000')).toBe(0);
+    });
+
+    it('should raise short intervals to the minimum', () => {
+      expect(resolveRefreshInterval(100)).toBe(MIN_REFRESH_INTERVAL);
+      expect(resolveRefreshInterval(60000)).toBe(60000);
+    });
+  });
+
+  describe('getIndexEvents', () => {
+    it('should find the core of the Datacore plugin', () => {
+      // Arrange
+      const core = { revision: 1, on: jest.fn(), offref: jest.fn(), reload: jest.fn() };
+
+      // Act & Assert
+      expect(getIndexEvents({ plugins: { plugins: { datacore: { api: { core } } } } })).toBe(core);
+      expect(getIndexEvents({ plugins: { plugins: {} } })).toBeNull();
+      expect(getIndexEvents({})).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  applyBoard,
+  BoardDefinition,
+  createBoardId,
+  DEFAULT_BOARD_ID,
+  findBoard,
+  getBoards,
+  migrateBoards,
+  registerBoardCommands
+} from '../../src/Boards';
+import { sampleKanbanSettings } from '../fixtures/sample-tasks';
+
+describe('Boards', () => {
+  const work: BoardDefinition = {
+    id: 'work',
+    name: 'Work',
+    datacoreQuery: '@task and path("Work")',
+    columns: sampleKanbanSettings.columns.slice(0, 2),
+    showTags: false
+  };
+  const home: BoardDefinition = {
+    id: 'home',
+    name: 'Home',
+    datacoreQuery: '@task and path("Home")',
+    columns: sampleKanbanSettings.columns
+  };
+
+  describe('getBoards', () => {
+    it('should build a single board from pre-board settings', () => {
+      // Act
+      const boards = getBoards(sampleKanbanSettings);
+
+      // Assert
+      expect(boards).toHaveLength(1);
+      expect(boards[0].id).toBe(DEFAULT_BOARD_ID);
+      expect(boards[0].datacoreQuery).toBe('@task');
+      expect(boards[0].columns).toBe(sampleKanbanSettings.columns);
+      expect(boards[0].cardMaxHeight).toBe(200);
+    });
+
+    it('should return the configured boards', () => {
+      expect(getBoards({ ...sampleKanbanSettings, boards: [work, home] })).toEqual([work, home]);
+    });
+  });
+
+  describe('findBoard', () => {
+    const settings = { ...sampleKanbanSettings, boards: [work, home], defaultBoardId: 'home' };
+
+    it('should find a board by id', () => {
+      expect(findBoard(settings, 'work')).toBe(work);
+    });
+
+    it('should fall back to the default board, then the first board', () => {
+      expect(findBoard(settings, 'deleted')).toBe(home);
+      expect(findBoard({ ...settings, defaultBoardId: 'deleted' }, null)).toBe(work);
+    });
+  });
+
+  describe('migrateBoards', () => {
+    it('should move legacy settings into a default board', () => {
+      const migrated = migrateBoards(sampleKanbanSettings);
+      expect(migrated.boards).toHaveLength(1);
+      expect(migrated.defaultBoardId).toBe(DEFAULT_BOARD_ID);
+      expect(migrated.viewPlacement).toBe('main');
+    });
+
+    it('should leave settings with boards untouched', () => {
+      const settings = { ...sampleKanbanSettings, boards: [work] };
+      expect(migrateBoards(settings)).toBe(settings);
+    });
+  });
+
+  describe('applyBoard', () => {
+    it('should overlay the board query, columns and options', () => {
+      // Act
+      const resolved = applyBoard(sampleKanbanSettings, work);
+
+      // Assert
+      expect(resolved.datacoreQuery).toBe(work.datacoreQuery);
+      expect(resolved.columns).toHaveLength(2);
+      expect(resolved.showTags).toBe(false);
+      expect(resolved.showDueDate).toBe(true);
+      expect(sampleKanbanSettings.showTags).toBe(true);
+    });
+  });
+
+  describe('createBoardId', () => {
+    it('should slugify names and avoid existing ids', () => {
+      expect(createBoardId('Sprint Board!', [])).toBe('sprint-board');
+      expect(createBoardId('Work', [work])).toBe('work-2');
+      expect(createBoardId('???', [])).toBe('board');
+    });
+  });
+
+  describe('registerBoardCommands', () => {
+    it('should add an open command per board', () => {
+      // Arrange
+      const addCommand = jest.fn();
+      const openBoard = jest.fn();
+
+      // Act
+      registerBoardCommands({ addCommand }, [work, home], openBoard);
+      addCommand.mock.calls[1][0].callback();
+
+      // Assert
+      expect(addCommand).toHaveBeenCalledWith(expect.objectContaining({ id: 'open-board-work', name: 'Open board: Work' }));
+      expect(openBoard).toHaveBeenCalledWith('home');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  ARCHIVE_TAG,
+  BulkAction,
+  BulkEditContext,
+  createBulkLineEdit,
+  describeBulkAction,
+  getBulkOperationKind,
+  groupTasksByPath,
+  isArchivedTask,
+  normalizeTag
+} from '../../src/BulkActions';
+import { createRuleContext } from '../../src/ColumnRules';
+import { createTestTask } from '../test-utils';
+
+describe('BulkActions', () => {
+  const columns = [
+    { id: 'todo', name: 'To Do', tag: '#todo' },
+    { id: 'doing', name: 'Doing', tag: '#doing' },
+    { id: 'done', name: 'Done', tag: '#done' },
+    { id: 'review', name: 'Review', tag: '', rule: { type: 'field' as const, field: 'status', value: 'review' } }
+  ];
+  const context: BulkEditContext = {
+    columns,
+    ruleContext: createRuleContext(columns, new Date(2024, 0, 15))
+  };
+  const edit = (action: BulkAction, line: string) => createBulkLineEdit(action, context)(line);
+
+  describe('createBulkLineEdit', () => {
+    it('should move to a tag column, checking off tasks moved to done with a done date', () => {
+      expect(edit({ type: 'move', columnId: 'doing' }, '- [ ] Deploy #todo')).toBe('- [ ] Deploy #doing');
+      expect(edit({ type: 'move', columnId: 'done' }, '- [ ] Deploy #doing')).toBe('- [x] Deploy #done ✅ 2024-01-15');
+    });
+
+    it('should write the rule of a rule column', () => {
+      expect(edit({ type: 'move', columnId: 'review' }, '- [ ] Deploy')).toBe('- [ ] Deploy [status:: review]');
+    });
+
+    it('should rewrite the swimlane when moving into another lane', () => {
+      const rewriteLane = jest.fn((line: string, laneKey: string) => `${line} #team/${laneKey}`);
+      const move = createBulkLineEdit({ type: 'move', columnId: 'doing', laneKey: 'web' }, { ...context, rewriteLane });
+      expect(move('- [ ] Deploy #todo')).toBe('- [ ] Deploy #doing #team/web');
+    });
+
+    it('should throw for an unknown column', () => {
+      expect(() => createBulkLineEdit({ type: 'move', columnId: 'gone' }, context)).toThrow('Unknown column "gone"');
+    });
+
+    it('should add and remove tags, with or without the #', () => {
+      expect(edit({ type: 'add-tag', tag: 'urgent' }, '- [ ] Deploy #todo')).toBe('- [ ] Deploy #todo #urgent');
+      expect(edit({ type: 'remove-tag', tag: '#urgent' }, '- [ ] Deploy #urgent #todo')).toBe('- [ ] Deploy #todo');
+    });
+
+    it('should set and clear due dates and priorities', () => {
+      expect(edit({ type: 'due', date: '2024-02-01' }, '- [ ] Deploy')).toBe('- [ ] Deploy 📅 2024-02-01');
+      expect(edit({ type: 'due', date: null }, '- [ ] Deploy 📅 2024-02-01')).toBe('- [ ] Deploy');
+      expect(edit({ type: 'priority', priority: 'high' }, '- [ ] Deploy 📅 2024-02-01')).toBe('- [ ] Deploy ⏫ 📅 2024-02-01');
+      expect(edit({ type: 'priority', priority: null }, '- [ ] Deploy 🔺')).toBe('- [ ] Deploy');
+    });
+
+    it('should complete tasks with a done date', () => {
+      expect(edit({ type: 'complete' }, '- [ ] Deploy #doing')).toBe('- [x] Deploy #doing ✅ 2024-01-15');
+      expect(edit({ type: 'complete' }, '- [x] Deploy ✅ 2024-01-10')).toBe('- [x] Deploy ✅ 2024-01-10');
+    });
+
+    it('should archive by swapping the status tag for the archive tag', () => {
+      expect(edit({ type: 'archive' }, '- [x] Deploy #done #ops')).toBe(`- [x] Deploy #ops ${ARCHIVE_TAG}`);
+    });
+  });
+
+  describe('describeBulkAction', () => {
+    it('should name the action and the task count', () => {
+      expect(describeBulkAction({ type: 'move', columnId: 'done' }, 3, columns)).toBe('Moved 3 tasks to Done');
+      expect(describeBulkAction({ type: 'add-tag', tag: 'urgent' }, 1)).toBe('Added #urgent to 1 task');
+      expect(describeBulkAction({ type: 'due', date: null }, 2)).toBe('Cleared the due date of 2 tasks');
+    });
+  });
+
+  describe('getBulkOperationKind', () => {
+    it('should map actions to history kinds', () => {
+      expect(getBulkOperationKind({ type: 'move', columnId: 'done' })).toBe('status');
+      expect(getBulkOperationKind({ type: 'complete' })).toBe('completion');
+      expect(getBulkOperationKind({ type: 'archive' })).toBe('tag');
+      expect(getBulkOperationKind({ type: 'due', date: null })).toBe('edit');
+    });
+  });
+
+  describe('groupTasksByPath', () => {
+    it('should group tasks so each file is written once', () => {
+      // Arrange
+      const a1 = createTestTask({ id: 'a1', file: { path: 'a.md' } });
+      const b1 = createTestTask({ id: 'b1', file: { path: 'b.md' } });
+      const a2 = createTestTask({ id: 'a2', file: { path: 'a.md' } });
+
+      // Act
+      const groups = groupTasksByPath([a1, b1, a2]);
+
+      // Assert
+      expect([...groups.keys()]).toEqual(['a.md', 'b.md']);
+      expect(groups.get('a.md')).toEqual([a1, a2]);
+    });
+  });
+
+  it('should detect archived tasks and normalize tags', () => {
+    expect(isArchivedTask(createTestTask({ tags: ['#Archived'] }))).toBe(true);
+    expect(isArchivedTask(createTestTask({ tags: ['#done'] }))).toBe(false);
+    expect(normalizeTag('  urgent ')).toBe('#urgent');
+  });
+});
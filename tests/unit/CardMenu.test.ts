@@ -0,0 +1,66 @@
+import { CardMenuRegistry, getCardMenuTitle, parsePostponeAmount } from '../../src/CardMenu';
+
+describe('CardMenu', () => {
+  describe('CardMenuRegistry', () => {
+    it('should return visible items in registration order', () => {
+      // Arrange
+      const registry = new CardMenuRegistry();
+      registry.register({ id: 'a', title: 'A', onClick: jest.fn() });
+      registry.register({ id: 'b', title: 'B', isVisible: task => !task.completed, onClick: jest.fn() });
+      registry.register({ id: 'c', title: 'C', onClick: jest.fn() });
+
+      // Act
+      const open = registry.getItems({ completed: false }).map(item => item.id);
+      const done = registry.getItems({ completed: true }).map(item => item.id);
+
+      // Assert
+      expect(open).toEqual(['a', 'b', 'c']);
+      expect(done).toEqual(['a', 'c']);
+    });
+
+    it('should replace an item registered with the same id and unregister it', () => {
+      const registry = new CardMenuRegistry();
+      const unregisterFirst = registry.register({ id: 'a', title: 'First', onClick: jest.fn() });
+      const unregisterSecond = registry.register({ id: 'a', title: 'Second', onClick: jest.fn() });
+
+      // Removing the replaced item leaves the new one in place
+      unregisterFirst();
+      expect(registry.getItems({}).map(item => item.title)).toEqual(['Second']);
+
+      unregisterSecond();
+      expect(registry.getItems({})).toEqual([]);
+    });
+
+    it('should leave out items whose visibility check throws', () => {
+      const registry = new CardMenuRegistry();
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      registry.register({ id: 'a', title: 'A', isVisible: () => { throw new Error('boom'); }, onClick: jest.fn() });
+      expect(registry.getItems({})).toEqual([]);
+    });
+
+    it('should reject items without an id or handler', () => {
+      const registry = new CardMenuRegistry();
+      expect(() => registry.register({ id: '', title: 'A', onClick: jest.fn() })).toThrow('need an id and an onClick handler');
+    });
+  });
+
+  describe('getCardMenuTitle', () => {
+    it('should resolve dynamic titles', () => {
+      expect(getCardMenuTitle({ id: 'a', title: task => `Send ${task.text}`, onClick: jest.fn() }, { text: 'Deploy' })).toBe('Send Deploy');
+    });
+  });
+
+  describe('parsePostponeAmount', () => {
+    it('should read days and weeks', () => {
+      expect(parsePostponeAmount('3')).toBe(3);
+      expect(parsePostponeAmount('+4d')).toBe(4);
+      expect(parsePostponeAmount(' 2W ')).toBe(14);
+    });
+
+    it('should reject zero and anything else', () => {
+      expect(parsePostponeAmount('0')).toBeNull();
+      expect(parsePostponeAmount('tomorrow')).toBeNull();
+      expect(parsePostponeAmount('-1d')).toBeNull();
+    });
+  });
+});
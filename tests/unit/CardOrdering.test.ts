@@ -0,0 +1,243 @@
+import {
+  getDropPosition,
+  isManuallyOrdered,
+  moveTaskLine,
+  planLineReorder,
+  planManualReorder,
+  resolveSortKeys,
+  sortColumnTasks
+} from '../../src/CardOrdering';
+import { createTestTask } from '../test-utils';
+
+describe('CardOrdering', () => {
+  const file = { path: 'Projects/Board.md' };
+  const ordered = (id: string, order: number | undefined, line: number) =>
+    createTestTask({ id, line, file, fields: order === undefined ? {} : { order } });
+
+  describe('sortColumnTasks', () => {
+    it('should sort manual columns by order with unordered tasks last', () => {
+      const tasks = [ordered('c', undefined, 3), ordered('b', 2, 2), ordered('a', 1, 1)];
+      expect(sortColumnTasks(tasks).map(task => task.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should sort by due date and keep input order for ties', () => {
+      // Arrange
+      const tasks = [
+        createTestTask({ id: 'none' }),
+        createTestTask({ id: 'late', dueDate: '2024-02-01' }),
+        createTestTask({ id: 'early', dueDate: '2024-01-01' }),
+        createTestTask({ id: 'none2' })
+      ];
+
+      // Act
+      const sorted = sortColumnTasks(tasks, 'due');
+
+      // Assert
+      expect(sorted.map(task => task.id)).toEqual(['early', 'late', 'none', 'none2']);
+      expect(tasks[0].id).toBe('none');
+    });
+
+    it('should sort by priority from highest to lowest', () => {
+      const tasks = [
+        createTestTask({ id: 'low', priority: 'low' }),
+        createTestTask({ id: 'high', priority: 'high' }),
+        createTestTask({ id: 'normal' })
+      ];
+      expect(sortColumnTasks(tasks, 'priority').map(task => task.id)).toEqual(['high', 'normal', 'low']);
+    });
+
+    it('should sort by the supplied urgency score, most urgent first', () => {
+      const tasks = [createTestTask({ id: 'a' }), createTestTask({ id: 'b' })];
+      const scores: Record<string, number> = { a: 1, b: 5 };
+      const sorted = sortColumnTasks(tasks, 'urgency', { getUrgencyScore: task => scores[task.id ?? ''] ?? 0 });
+      expect(sorted.map(task => task.id)).toEqual(['b', 'a']);
+    });
+
+    it('should break ties with later sort keys', () => {
+      // Arrange
+      const tasks = [
+        createTestTask({ id: 'b-high', dueDate: '2024-01-01', priority: 'high' }),
+        createTestTask({ id: 'late', dueDate: '2024-02-01', priority: 'highest' }),
+        createTestTask({ id: 'a-highest', dueDate: '2024-01-01', priority: 'highest' })
+      ];
+
+      // Act
+      const sorted = sortColumnTasks(tasks, ['due', 'priority']);
+
+      // Assert
+      expect(sorted.map(task => task.id)).toEqual(['a-highest', 'b-high', 'late']);
+    });
+
+    it('should sort descending with a minus prefix and keep missing values last', () => {
+      const tasks = [
+        createTestTask({ id: 'none' }),
+        createTestTask({ id: 'early', dueDate: '2024-01-01' }),
+        createTestTask({ id: 'late', dueDate: '2024-02-01' })
+      ];
+      expect(sortColumnTasks(tasks, ['-due']).map(task => task.id)).toEqual(['late', 'early', 'none']);
+    });
+
+    it('should sort by scheduled date, file path and text', () => {
+      const a = createTestTask({ id: 'a', text: 'beta', scheduledDate: '2024-01-02', file: { path: 'B.md' } });
+      const b = createTestTask({ id: 'b', text: 'Alpha', scheduledDate: '2024-01-01', file: { path: 'a.md' } });
+      expect(sortColumnTasks([a, b], ['scheduled']).map(task => task.id)).toEqual(['b', 'a']);
+      expect(sortColumnTasks([a, b], ['path']).map(task => task.id)).toEqual(['b', 'a']);
+      expect(sortColumnTasks([a, b], ['text']).map(task => task.id)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('resolveSortKeys', () => {
+    it('should prefer sortBy, then sortMode, then manual', () => {
+      expect(resolveSortKeys({ sortBy: ['-due'], sortMode: 'priority' })).toEqual(['-due']);
+      expect(resolveSortKeys({ sortMode: 'priority' })).toEqual(['priority']);
+      expect(resolveSortKeys({ sortBy: [] })).toEqual(['manual']);
+    });
+
+    it('should only allow dragging in columns led by manual order', () => {
+      expect(isManuallyOrdered({})).toBe(true);
+      expect(isManuallyOrdered({ sortBy: ['manual', 'due'] })).toBe(true);
+      expect(isManuallyOrdered({ sortBy: ['due', 'manual'] })).toBe(false);
+    });
+  });
+
+  describe('getDropPosition', () => {
+    const dated = (id: string, dueDate: string) => createTestTask({ id, dueDate });
+
+    it('should land at the pointer when rearranging a manual column', () => {
+      const tasks = [ordered('a', 1, 1), ordered('b', 2, 2), ordered('c', 3, 3)];
+      expect(getDropPosition(tasks[0]!, tasks, {}, 2)).toBe(2);
+    });
+
+    it('should refuse rearranging a sorted column', () => {
+      const tasks = [dated('a', '2024-01-01'), dated('b', '2024-02-01')];
+      expect(getDropPosition(tasks[1]!, tasks, { sortBy: ['due'] }, 0)).toBeNull();
+    });
+
+    it('should land where the target column sorts a card from another column', () => {
+      // Arrange
+      const tasks = [dated('a', '2024-01-01'), dated('c', '2024-03-01')];
+      const moving = dated('b', '2024-02-01');
+
+      // Act & Assert: the pointer position doesn't matter
+      expect(getDropPosition(moving, tasks, { sortBy: ['due'] }, 0)).toBe(1);
+      expect(getDropPosition(ordered('d', undefined, 9), [ordered('a', 1, 1)], {}, 0)).toBe(1);
+    });
+  });
+
+  describe('planManualReorder', () => {
+    it('should write only the moved task using the neighbours midpoint', () => {
+      // Arrange
+      const tasks = [ordered('a', 1, 1), ordered('b', 2, 2), ordered('c', 3, 3)];
+
+      // Act
+      const updates = planManualReorder(tasks, 'c', 1);
+
+      // Assert
+      expect(updates).toHaveLength(1);
+      expect(updates[0].task.id).toBe('c');
+      expect(updates[0].order).toBe(1.5);
+    });
+
+    it('should place a task before the first or after the last card', () => {
+      const tasks = [ordered('a', 1, 1), ordered('b', 2, 2), ordered('c', 3, 3)];
+      expect(planManualReorder(tasks, 'c', 0)[0].order).toBe(0);
+      expect(planManualReorder(tasks, 'a', 2)[0].order).toBe(4);
+    });
+
+    it('should renumber the column when neighbours have no order', () => {
+      // Arrange
+      const tasks = [ordered('a', undefined, 1), ordered('b', undefined, 2), ordered('c', undefined, 3)];
+
+      // Act
+      const updates = planManualReorder(tasks, 'c', 0);
+
+      // Assert
+      expect(updates.map(update => [update.task.id, update.order])).toEqual([['c', 1], ['a', 2], ['b', 3]]);
+    });
+
+    it('should skip tasks whose order does not change when renumbering', () => {
+      const tasks = [ordered('a', 1, 1), ordered('b', 1, 2), ordered('c', 3, 3)];
+      const updates = planManualReorder(tasks, 'c', 2);
+      expect(updates.map(update => [update.task.id, update.order])).toEqual([['b', 2]]);
+    });
+
+    it('should return nothing for an unknown task', () => {
+      expect(planManualReorder([ordered('a', 1, 1)], 'missing', 0)).toEqual([]);
+    });
+
+    it('should spread a block of tasks between the neighbours in column order', () => {
+      // Arrange
+      const tasks = [ordered('a', 1, 1), ordered('b', 2, 2), ordered('c', 3, 3), ordered('d', 4, 4)];
+
+      // Act: move c and a between b and d
+      const updates = planManualReorder(tasks, ['c', 'a'], 1);
+
+      // Assert
+      expect(updates.map(update => [update.task.id, update.order])).toEqual([['a', 2.667], ['c', 3.333]]);
+    });
+
+    it('should place a block before the first or after the last card', () => {
+      const tasks = [ordered('a', 1, 1), ordered('b', 2, 2), ordered('c', 3, 3)];
+      expect(planManualReorder(tasks, ['b', 'c'], 0).map(update => update.order)).toEqual([-1, 0]);
+      expect(planManualReorder(tasks, ['a', 'b'], 1).map(update => update.order)).toEqual([4, 5]);
+    });
+
+    it('should renumber the column around a block that does not fit between its neighbours', () => {
+      // Arrange
+      const tasks = [ordered('a', 1, 1), ordered('b', 1.001, 2), ordered('c', 3, 3), ordered('d', 4, 4)];
+
+      // Act
+      const updates = planManualReorder(tasks, ['c', 'd'], 1);
+
+      // Assert
+      expect(updates.map(update => [update.task.id, update.order])).toEqual([['c', 2], ['d', 3], ['b', 4]]);
+    });
+  });
+
+  describe('planLineReorder', () => {
+    it('should move before the next card in the same file', () => {
+      const tasks = [ordered('a', undefined, 4), ordered('b', undefined, 7), ordered('c', undefined, 9)];
+      expect(planLineReorder(tasks, 'c', 1)).toEqual({ path: file.path, fromLine: 9, beforeLine: 7 });
+    });
+
+    it('should move after the previous card when dropped last', () => {
+      const tasks = [ordered('a', undefined, 4), ordered('b', undefined, 7)];
+      expect(planLineReorder(tasks, 'a', 1)).toEqual({ path: file.path, fromLine: 4, beforeLine: 8 });
+    });
+
+    it('should move below the sub-items of the previous card', () => {
+      // Arrange
+      const lines = ['- [ ] A', '- [ ] B', '  - [ ] B child', '  notes on B', '- [ ] C'];
+      const tasks = [ordered('a', undefined, 0), ordered('b', undefined, 1)];
+
+      // Act
+      const move = planLineReorder(tasks, 'a', 1, lines);
+
+      // Assert
+      expect(move).toEqual({ path: file.path, fromLine: 0, beforeLine: 4 });
+      expect(moveTaskLine(lines.join('\n'), 0, 4).split('\n'))
+        .toEqual(['- [ ] B', '  - [ ] B child', '  notes on B', '- [ ] A', '- [ ] C']);
+    });
+
+    it('should return null when the neighbours live in other files', () => {
+      const other = createTestTask({ id: 'x', line: 2, file: { path: 'Other.md' } });
+      expect(planLineReorder([ordered('a', undefined, 4), other], 'a', 1)).toBeNull();
+    });
+  });
+
+  describe('moveTaskLine', () => {
+    const content = ['- [ ] A', '  - [ ] A child', '- [ ] B', '- [ ] C'].join('\n');
+
+    it('should move a task together with its indented children', () => {
+      expect(moveTaskLine(content, 0, 3)).toBe(['- [ ] B', '- [ ] A', '  - [ ] A child', '- [ ] C'].join('\n'));
+    });
+
+    it('should move a task upwards', () => {
+      expect(moveTaskLine(content, 3, 0)).toBe(['- [ ] C', '- [ ] A', '  - [ ] A child', '- [ ] B'].join('\n'));
+    });
+
+    it('should leave content untouched when moving into its own block', () => {
+      expect(moveTaskLine(content, 0, 1)).toBe(content);
+    });
+  });
+});
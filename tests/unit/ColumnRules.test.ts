@@ -0,0 +1,168 @@
+import {
+  applyRule,
+  canWriteRule,
+  ColumnRule,
+  createRuleContext,
+  findMatchingColumn,
+  matchesRule,
+  moveLineToColumn,
+  RuleContext
+} from '../../src/ColumnRules';
+import { sampleKanbanSettings } from '../fixtures/sample-tasks';
+import { createTestTask } from '../test-utils';
+
+describe('ColumnRules', () => {
+  // Wednesday
+  const now = new Date(2024, 0, 17);
+  let context: RuleContext;
+
+  beforeEach(() => {
+    context = createRuleContext(sampleKanbanSettings.columns, now);
+  });
+
+  describe('createRuleContext', () => {
+    it('should collect status tags from tags and nested rules', () => {
+      // Arrange
+      const columns = [
+        { id: 'todo', tag: '#todo' },
+        { id: 'review', tag: '', rule: { type: 'and', rules: [{ type: 'tag', tag: '#review' }, { type: 'status', symbol: '/' }] } as ColumnRule }
+      ];
+
+      // Act
+      const result = createRuleContext(columns, now);
+
+      // Assert
+      expect(result.statusTags).toEqual(['#todo', '#review']);
+      expect(result.today).toBe('2024-01-17');
+    });
+  });
+
+  describe('matchesRule', () => {
+    it('should match tags case-insensitively', () => {
+      const task = createTestTask({ tags: ['#Doing'] });
+      expect(matchesRule(task, { type: 'tag', tag: '#doing' }, context)).toBe(true);
+    });
+
+    it('should match Tasks status symbols', () => {
+      expect(matchesRule(createTestTask({ statusSymbol: '/' }), { type: 'status', symbol: '/' }, context)).toBe(true);
+      expect(matchesRule(createTestTask({ $status: '>' }), { type: 'status', symbol: '>' }, context)).toBe(true);
+      expect(matchesRule(createTestTask({ completed: true }), { type: 'status', symbol: 'x' }, context)).toBe(true);
+    });
+
+    it('should match field values', () => {
+      const task = createTestTask({ fields: { status: 'Review' } });
+      expect(matchesRule(task, { type: 'field', field: 'status', value: 'review' }, context)).toBe(true);
+      expect(matchesRule(task, { type: 'field', field: 'status', value: 'done' }, context)).toBe(false);
+    });
+
+    it('should match due date predicates', () => {
+      const overdue = createTestTask({ dueDate: '2024-01-16' });
+      const today = createTestTask({ dueDate: '2024-01-17' });
+      const sunday = createTestTask({ dueDate: '2024-01-21' });
+      const nextWeek = createTestTask({ dueDate: '2024-01-22' });
+      const undated = createTestTask();
+
+      expect(matchesRule(overdue, { type: 'due', when: 'overdue' }, context)).toBe(true);
+      expect(matchesRule({ ...overdue, completed: true }, { type: 'due', when: 'overdue' }, context)).toBe(false);
+      expect(matchesRule(today, { type: 'due', when: 'today' }, context)).toBe(true);
+      expect(matchesRule(sunday, { type: 'due', when: 'this-week' }, context)).toBe(true);
+      expect(matchesRule(nextWeek, { type: 'due', when: 'this-week' }, context)).toBe(false);
+      expect(matchesRule(undated, { type: 'due', when: 'none' }, context)).toBe(true);
+    });
+
+    it('should combine rules with and, or and not', () => {
+      // Arrange
+      const task = createTestTask({ tags: ['#work'], statusSymbol: '/' });
+      const rule: ColumnRule = {
+        type: 'and',
+        rules: [
+          { type: 'or', rules: [{ type: 'tag', tag: '#home' }, { type: 'tag', tag: '#work' }] },
+          { type: 'not', rule: { type: 'status', symbol: 'x' } }
+        ]
+      };
+
+      // Act & Assert
+      expect(matchesRule(task, rule, context)).toBe(true);
+      expect(matchesRule({ ...task, statusSymbol: 'x' }, rule, context)).toBe(false);
+    });
+  });
+
+  describe('findMatchingColumn', () => {
+    it('should return the first matching column or null', () => {
+      const columns = sampleKanbanSettings.columns;
+      expect(findMatchingColumn(createTestTask({ tags: ['#waiting'] }), columns, context)?.id).toBe('waiting');
+      expect(findMatchingColumn(createTestTask({ tags: ['#work'] }), columns, context)).toBeNull();
+    });
+  });
+
+  describe('applyRule', () => {
+    it('should swap status tags for tag rules', () => {
+      const line = '- [ ] Review pull request #doing #development';
+      expect(applyRule(line, { type: 'tag', tag: '#waiting' }, context))
+        .toBe('- [ ] Review pull request #development #waiting');
+    });
+
+    it('should set the checkbox symbol for status rules', () => {
+      expect(applyRule('  - [ ] Draft spec', { type: 'status', symbol: '/' }, context)).toBe('  - [/] Draft spec');
+    });
+
+    it('should set inline fields for field rules', () => {
+      expect(applyRule('- [ ] Draft spec [status:: draft]', { type: 'field', field: 'status', value: 'review' }, context))
+        .toBe('- [ ] Draft spec [status:: review]');
+    });
+
+    it('should write due dates for due rules', () => {
+      expect(applyRule('- [ ] Draft spec 📅 2024-02-01', { type: 'due', when: 'today' }, context))
+        .toBe('- [ ] Draft spec 📅 2024-01-17');
+      expect(applyRule('- [ ] Draft spec 📅 2024-02-01', { type: 'due', when: 'none' }, context))
+        .toBe('- [ ] Draft spec');
+      expect(applyRule('- [ ] Draft spec', { type: 'due', when: 'overdue' }, context)).toBeNull();
+    });
+
+    it('should apply every child of an and rule', () => {
+      const rule: ColumnRule = { type: 'and', rules: [{ type: 'status', symbol: '/' }, { type: 'tag', tag: '#doing' }] };
+      expect(applyRule('- [ ] Draft spec #todo', rule, context)).toBe('- [/] Draft spec #doing');
+    });
+
+    it('should apply the first writable child of an or rule', () => {
+      const rule: ColumnRule = { type: 'or', rules: [{ type: 'due', when: 'overdue' }, { type: 'tag', tag: '#doing' }] };
+      expect(applyRule('- [ ] Draft spec', rule, context)).toBe('- [ ] Draft spec #doing');
+    });
+
+    it('should remove tags and fields for not rules', () => {
+      expect(applyRule('- [ ] Draft spec #blocked', { type: 'not', rule: { type: 'tag', tag: '#blocked' } }, context))
+        .toBe('- [ ] Draft spec');
+      expect(applyRule('- [ ] Draft spec', { type: 'not', rule: { type: 'status', symbol: 'x' } }, context)).toBeNull();
+    });
+
+    it('should not touch longer tags sharing a status tag prefix', () => {
+      const line = '- [ ] Plan #todo-later #todo';
+      expect(applyRule(line, { type: 'tag', tag: '#doing' }, context)).toBe('- [ ] Plan #todo-later #doing');
+    });
+  });
+
+  describe('moveLineToColumn', () => {
+    const columns = [
+      { id: 'todo', tag: '#todo' },
+      { id: 'done', tag: '#done' },
+      { id: 'review', tag: '', rule: { type: 'field', field: 'status', value: 'review' } as ColumnRule }
+    ];
+
+    it('should swap the status tag and check the task off in the done column', () => {
+      expect(moveLineToColumn('- [ ] Draft spec #todo', columns[1]!, columns, context)).toBe('- [x] Draft spec #done ✅ 2024-01-17');
+    });
+
+    it('should write the rule of a rule column without touching status tags', () => {
+      expect(moveLineToColumn('- [ ] Draft spec #todo', columns[2]!, columns, context))
+        .toBe('- [ ] Draft spec #todo [status:: review]');
+    });
+  });
+
+  describe('canWriteRule', () => {
+    it('should report which rules accept drops', () => {
+      expect(canWriteRule({ type: 'tag', tag: '#todo' })).toBe(true);
+      expect(canWriteRule({ type: 'due', when: 'overdue' })).toBe(false);
+      expect(canWriteRule({ type: 'and', rules: [{ type: 'tag', tag: '#todo' }, { type: 'due', when: 'overdue' }] })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { groupColumnTasks, UNGROUPED_SECTION } from '../../src/ColumnSections';
+import { createTestTask } from '../test-utils';
+
+describe('ColumnSections', () => {
+  describe('groupColumnTasks', () => {
+    it('should return a single section when grouping is off', () => {
+      const tasks = [createTestTask({ id: 'a' }), createTestTask({ id: 'b' })];
+      const sections = groupColumnTasks(tasks, 'none');
+      expect(sections).toHaveLength(1);
+      expect(sections[0].tasks).toBe(tasks);
+    });
+
+    it('should group by file in order of first appearance', () => {
+      // Arrange
+      const tasks = [
+        createTestTask({ id: 'a', file: { path: 'Work/Beta.md' } }),
+        createTestTask({ id: 'b', file: { path: 'Work/Alpha.md' } }),
+        createTestTask({ id: 'c', file: { path: 'Work/Beta.md' } })
+      ];
+
+      // Act
+      const sections = groupColumnTasks(tasks, 'file');
+
+      // Assert
+      expect(sections.map(section => section.label)).toEqual(['Beta', 'Alpha']);
+      expect(sections[0].tasks.map(task => task.id)).toEqual(['a', 'c']);
+    });
+
+    it('should group by due week with undated tasks last', () => {
+      // Arrange
+      const tasks = [
+        createTestTask({ id: 'undated' }),
+        createTestTask({ id: 'wed', dueDate: '2024-01-17' }),
+        createTestTask({ id: 'sun', dueDate: '2024-01-21' }),
+        createTestTask({ id: 'next', dueDate: '2024-01-22' })
+      ];
+
+      // Act
+      const sections = groupColumnTasks(tasks, 'due-week');
+
+      // Assert
+      expect(sections.map(section => section.label)).toEqual(['Week of 2024-01-15', 'Week of 2024-01-22', 'No due date']);
+      expect(sections[0].tasks.map(task => task.id)).toEqual(['wed', 'sun']);
+      expect(sections[2].key).toBe(UNGROUPED_SECTION);
+    });
+
+    it('should group by priority and folder', () => {
+      const high = createTestTask({ id: 'high', priority: 'high', file: { path: 'Home/Chores.md' } });
+      const normal = createTestTask({ id: 'normal', file: { path: 'Inbox.md' } });
+      expect(groupColumnTasks([high, normal], 'priority').map(section => section.label)).toEqual(['High', 'Normal']);
+      expect(groupColumnTasks([high, normal], 'folder').map(section => section.label)).toEqual(['Home', '/']);
+    });
+  });
+});
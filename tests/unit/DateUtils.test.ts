@@ -0,0 +1,32 @@
+import { addDays, endOfWeek, isValidISODate, normalizeDate, startOfWeek, toISODate } from '../../src/DateUtils';
+
+describe('DateUtils', () => {
+  it('should format local dates as YYYY-MM-DD', () => {
+    expect(toISODate(new Date(2024, 0, 5))).toBe('2024-01-05');
+  });
+
+  it('should reject dates that do not exist', () => {
+    expect(isValidISODate('2024-02-29')).toBe(true);
+    expect(isValidISODate('2023-02-29')).toBe(false);
+    expect(isValidISODate('2024-1-5')).toBe(false);
+  });
+
+  it('should add days across month boundaries', () => {
+    expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('should compute ISO week bounds', () => {
+    expect(startOfWeek('2024-01-17')).toBe('2024-01-15');
+    expect(startOfWeek('2024-01-21')).toBe('2024-01-15');
+    expect(endOfWeek('2024-01-15')).toBe('2024-01-21');
+  });
+
+  it('should normalize strings, Dates and Luxon-like values', () => {
+    expect(normalizeDate('2024-01-15T10:00:00')).toBe('2024-01-15');
+    expect(normalizeDate(new Date(2024, 0, 15))).toBe('2024-01-15');
+    expect(normalizeDate({ toISODate: () => '2024-01-15' })).toBe('2024-01-15');
+    expect(normalizeDate('soon')).toBeNull();
+    expect(normalizeDate(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { DEFAULT_EMBED_COLUMNS, resolveEmbedSettings } from '../../src/EmbedOptions';
+import { BoardDefinition } from '../../src/Boards';
+import { sampleKanbanSettings } from '../fixtures/sample-tasks';
+
+describe('EmbedOptions', () => {
+  const work: BoardDefinition = {
+    id: 'work',
+    name: 'Work',
+    datacoreQuery: '@task and #work',
+    columns: sampleKanbanSettings.columns.slice(0, 2),
+    showTags: false,
+    unsortedPolicy: 'hide'
+  };
+  const pluginSettings = { ...sampleKanbanSettings, boards: [work], unsortedPolicy: 'unsorted' as const };
+
+  it('should use the built-in defaults without props or plugin', () => {
+    // Act
+    const settings = resolveEmbedSettings();
+
+    // Assert
+    expect(settings.query).toBe('@task');
+    expect(settings.columns).toBe(DEFAULT_EMBED_COLUMNS);
+    expect(settings.title).toBe('Task Board');
+    expect(settings.scope).toBe('vault');
+  });
+
+  it('should follow the plugin unsorted policy without a profile', () => {
+    const settings = resolveEmbedSettings({}, pluginSettings);
+    expect(settings.query).toBe('@task');
+    expect(settings.unsortedPolicy).toBe('unsorted');
+  });
+
+  it('should add tasks to the host note unless configured otherwise', () => {
+    expect(resolveEmbedSettings().quickAdd).toEqual({ destination: 'host-note' });
+    expect(resolveEmbedSettings({ quickAdd: { heading: '## Tasks' } }).quickAdd)
+      .toEqual({ destination: 'host-note', heading: '## Tasks' });
+  });
+
+  it('should inherit from a profile by id or name', () => {
+    // Act
+    const byId = resolveEmbedSettings({ profile: 'work' }, pluginSettings);
+    const byName = resolveEmbedSettings({ profile: 'WORK' }, pluginSettings);
+
+    // Assert
+    expect(byId.query).toBe('@task and #work');
+    expect(byId.columns).toHaveLength(2);
+    expect(byId.title).toBe('Work');
+    expect(byId.showTags).toBe(false);
+    expect(byId.unsortedPolicy).toBe('hide');
+    expect(byName).toEqual(byId);
+  });
+
+  it('should let props override the profile', () => {
+    const settings = resolveEmbedSettings(
+      { profile: 'work', query: '@task and #urgent', title: 'Urgent', showTags: true, cardMaxHeight: 120, scope: 'folder' },
+      pluginSettings
+    );
+    expect(settings).toMatchObject({ query: '@task and #urgent', title: 'Urgent', showTags: true, cardMaxHeight: 120, scope: 'folder' });
+    expect(settings.columns).toHaveLength(2);
+  });
+
+  it('should fall back to the defaults for an unknown profile', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(resolveEmbedSettings({ profile: 'missing' }, pluginSettings).query).toBe('@task');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should ignore an empty columns prop', () => {
+    expect(resolveEmbedSettings({ columns: [] }).columns).toBe(DEFAULT_EMBED_COLUMNS);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  acknowledgeWrite,
+  CardPlacement,
+  collectPlacements,
+  PendingWrite,
+  placeColumnTasks,
+  placeLaneTasks,
+  reconcileWrites
+} from '../../src/OptimisticUpdates';
+
+describe('OptimisticUpdates', () => {
+  const task = (id: string, text = id) => ({ id, text });
+  const write = (id: number, placements: [string, CardPlacement][], revision: number | null = null): PendingWrite => ({
+    id,
+    placements: new Map(placements),
+    revision
+  });
+  const byText = (_columnId: string, tasks: { id: string; text: string }[]) =>
+    [...tasks].sort((a, b) => a.text.localeCompare(b.text));
+
+  describe('reconcileWrites', () => {
+    it('should keep writes until the index reaches their revision', () => {
+      // Arrange
+      const writes = [write(1, [], null), write(2, [], 5), write(3, [], 7)];
+
+      // Act
+      const open = reconcileWrites(writes, 5);
+
+      // Assert
+      expect(open.map(w => w.id)).toEqual([1, 3]);
+    });
+  });
+
+  describe('acknowledgeWrite', () => {
+    it('should record the revision of a finished write', () => {
+      const writes = [write(1, [], null), write(2, [], null)];
+
+      expect(acknowledgeWrite(writes, 1, 9, 8)).toEqual([write(1, [], 9), write(2, [], null)]);
+    });
+
+    it('should drop a write the index already holds', () => {
+      expect(acknowledgeWrite([write(1, [], null)], 1, 4, 6)).toEqual([]);
+    });
+  });
+
+  describe('collectPlacements', () => {
+    it('should let later writes win', () => {
+      // Arrange
+      const writes = [
+        write(1, [['a', { columnId: 'doing' }], ['b', { columnId: 'doing' }]]),
+        write(2, [['a', { columnId: 'done' }]])
+      ];
+
+      // Act
+      const placements = collectPlacements(writes);
+
+      // Assert
+      expect(placements.get('a')).toEqual({ columnId: 'done' });
+      expect(placements.get('b')).toEqual({ columnId: 'doing' });
+    });
+  });
+
+  describe('placeColumnTasks', () => {
+    const columns = {
+      todo: [task('a', 'alpha'), task('b', 'bravo')],
+      doing: [task('c', 'charlie'), task('e', 'echo')]
+    };
+
+    it('should move a card to where the target column sorts it', () => {
+      // Act
+      const placed = placeColumnTasks(columns, new Map([['b', { columnId: 'doing' }]]), byText);
+
+      // Assert
+      expect(placed.todo?.map(t => t.id)).toEqual(['a']);
+      expect(placed.doing?.map(t => t.id)).toEqual(['b', 'c', 'e']);
+    });
+
+    it('should put a reordered card at its index', () => {
+      // Act
+      const placed = placeColumnTasks(columns, new Map([['c', { columnId: 'doing', index: 1 }]]), byText);
+
+      // Assert
+      expect(placed.doing?.map(t => t.id)).toEqual(['e', 'c']);
+    });
+
+    it('should leave unknown cards and hidden columns alone', () => {
+      // Act
+      const placed = placeColumnTasks(columns, new Map([
+        ['x', { columnId: 'doing' }],
+        ['a', { columnId: 'hidden' }]
+      ]), byText);
+
+      // Assert
+      expect(placed).toEqual(columns);
+    });
+  });
+
+  describe('placeLaneTasks', () => {
+    it('should move cards into existing lanes only', () => {
+      // Arrange
+      const lanes = [
+        { key: 'alpha', tasks: [task('a'), task('b')] },
+        { key: 'beta', tasks: [task('c')] }
+      ];
+
+      // Act
+      const placed = placeLaneTasks(lanes, new Map([
+        ['a', { columnId: 'todo', laneKey: 'beta' }],
+        ['b', { columnId: 'todo', laneKey: 'gamma' }]
+      ]));
+
+      // Assert
+      expect(placed.map(lane => lane.tasks.map(t => t.id))).toEqual([['b'], ['c', 'a']]);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  AUTO_SCROLL_MAX_SPEED,
+  getAutoScrollDelta,
+  getSwipeStep,
+  hasMoved,
+  resolveMobileLayout
+} from '../../src/PointerDrag';
+
+describe('PointerDrag', () => {
+  describe('hasMoved', () => {
+    it('should ignore jitter below the threshold', () => {
+      expect(hasMoved({ x: 10, y: 10 }, { x: 14, y: 13 })).toBe(false);
+      expect(hasMoved({ x: 10, y: 10 }, { x: 10, y: 30 })).toBe(true);
+    });
+  });
+
+  describe('getAutoScrollDelta', () => {
+    it('should scroll towards the edge the pointer is near, faster closer to it', () => {
+      // Arrange: a 400px wide container with 48px edges
+      const delta = (x: number) => getAutoScrollDelta(x, 100, 500);
+
+      // Act & Assert
+      expect(delta(300)).toBe(0);
+      expect(delta(100)).toBe(-AUTO_SCROLL_MAX_SPEED);
+      expect(delta(500)).toBe(AUTO_SCROLL_MAX_SPEED);
+      expect(delta(140)).toBeGreaterThan(-AUTO_SCROLL_MAX_SPEED);
+      expect(delta(140)).toBeLessThan(0);
+    });
+
+    it('should cap the speed when the pointer leaves the container', () => {
+      expect(getAutoScrollDelta(20, 100, 500)).toBe(-AUTO_SCROLL_MAX_SPEED);
+    });
+
+    it('should split the edges of a container smaller than both of them', () => {
+      expect(getAutoScrollDelta(120, 100, 160)).toBeLessThan(0);
+      expect(getAutoScrollDelta(140, 100, 160)).toBeGreaterThan(0);
+      expect(getAutoScrollDelta(100, 100, 100)).toBe(0);
+    });
+  });
+
+  describe('getSwipeStep', () => {
+    it('should go to the next column on a swipe to the left', () => {
+      expect(getSwipeStep({ x: 300, y: 200 }, { x: 200, y: 210 })).toBe(1);
+      expect(getSwipeStep({ x: 200, y: 200 }, { x: 300, y: 190 })).toBe(-1);
+    });
+
+    it('should ignore short and mostly vertical gestures', () => {
+      expect(getSwipeStep({ x: 300, y: 200 }, { x: 270, y: 200 })).toBe(0);
+      expect(getSwipeStep({ x: 300, y: 200 }, { x: 200, y: 400 })).toBe(0);
+    });
+  });
+
+  describe('resolveMobileLayout', () => {
+    it('should default to all columns', () => {
+      expect(resolveMobileLayout('single-column')).toBe('single-column');
+      expect(resolveMobileLayout(undefined)).toBe('columns');
+    });
+  });
+});
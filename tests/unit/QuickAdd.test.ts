@@ -0,0 +1,160 @@
+import {
+  addTaskToNote,
+  createQuickAddLine,
+  expandDateShorthand,
+  getDailyNotePath,
+  insertLineUnderHeading,
+  resolveQuickAddTarget
+} from '../../src/QuickAdd';
+import { createRuleContext } from '../../src/ColumnRules';
+
+describe('QuickAdd', () => {
+  // 2024-01-17 is a Wednesday
+  const today = '2024-01-17';
+  const columns = [
+    { id: 'todo', tag: '#todo' },
+    { id: 'doing', tag: '#doing' },
+    { id: 'review', tag: '', rule: { type: 'field' as const, field: 'status', value: 'review' } },
+    { id: 'overdue', tag: '', rule: { type: 'due' as const, when: 'overdue' as const } }
+  ];
+  const context = { ...createRuleContext(columns), today };
+
+  describe('createQuickAddLine', () => {
+    it('should tag the task with the column status tag', () => {
+      expect(createQuickAddLine('Write release notes', columns[1]!, context)).toBe('- [ ] Write release notes #doing');
+    });
+
+    it('should keep Tasks emoji in canonical order and expand date shorthand', () => {
+      expect(createQuickAddLine('Call Sam 📅 tomorrow ⏫ #phone', columns[0]!, context))
+        .toBe('- [ ] Call Sam #phone #todo ⏫ 📅 2024-01-18');
+    });
+
+    it('should replace a typed status tag with the column tag', () => {
+      expect(createQuickAddLine('Deploy #todo', columns[1]!, context)).toBe('- [ ] Deploy #doing');
+    });
+
+    it('should write the rule of a rule column', () => {
+      expect(createQuickAddLine('Check copy', columns[2]!, context)).toBe('- [ ] Check copy [status:: review]');
+    });
+
+    it('should reject empty text and columns whose rule can\'t be written', () => {
+      expect(() => createQuickAddLine('  ', columns[0]!, context)).toThrow('Task text can\'t be empty');
+      expect(() => createQuickAddLine('Late', columns[3]!, context)).toThrow('its rule can\'t be written');
+    });
+  });
+
+  describe('expandDateShorthand', () => {
+    it('should expand relative dates after date emoji', () => {
+      expect(expandDateShorthand('A 📅 today ⏳ +3d 🛫 -1w', today)).toBe('A 📅 2024-01-17 ⏳ 2024-01-20 🛫 2024-01-10');
+    });
+
+    it('should resolve weekdays to the next such day', () => {
+      expect(expandDateShorthand('A 📅 fri', today)).toBe('A 📅 2024-01-19');
+      expect(expandDateShorthand('A 📅 Wednesday', today)).toBe('A 📅 2024-01-24');
+    });
+
+    it('should keep ISO dates and reject unknown values', () => {
+      expect(expandDateShorthand('A 📅 2024-02-01', today)).toBe('A 📅 2024-02-01');
+      expect(() => expandDateShorthand('A 📅 someday', today)).toThrow('Couldn\'t read "someday" as a date');
+    });
+  });
+
+  describe('resolveQuickAddTarget', () => {
+    const targetContext = { hostPath: 'Projects/Launch.md', getDailyNotePath: () => 'Daily/2024-01-17' };
+
+    it('should default to the inbox', () => {
+      expect(resolveQuickAddTarget(undefined, targetContext)).toEqual({ path: 'Inbox.md', heading: null });
+      expect(resolveQuickAddTarget({ inboxPath: 'GTD/Inbox', heading: '## New' }, targetContext))
+        .toEqual({ path: 'GTD/Inbox.md', heading: '## New' });
+    });
+
+    it('should resolve the daily note, host note and fixed file', () => {
+      expect(resolveQuickAddTarget({ destination: 'daily-note' }, targetContext).path).toBe('Daily/2024-01-17.md');
+      expect(resolveQuickAddTarget({ destination: 'host-note' }, targetContext).path).toBe('Projects/Launch.md');
+      expect(resolveQuickAddTarget({ destination: 'file', filePath: 'Work/Backlog.md' }, targetContext).path).toBe('Work/Backlog.md');
+    });
+
+    it('should fall back to the inbox without a host note', () => {
+      expect(resolveQuickAddTarget({ destination: 'host-note' }, { ...targetContext, hostPath: null }).path).toBe('Inbox.md');
+    });
+
+    it('should require a file for the file destination', () => {
+      expect(() => resolveQuickAddTarget({ destination: 'file' }, targetContext)).toThrow('no file is configured');
+    });
+  });
+
+  describe('insertLineUnderHeading', () => {
+    const note = ['# Launch', '', '## Tasks', '- [ ] A', '', '## Notes', 'Text', ''].join('\n');
+
+    it('should insert at the end of the heading section', () => {
+      expect(insertLineUnderHeading(note, '- [ ] B', '## Tasks'))
+        .toBe(['# Launch', '', '## Tasks', '- [ ] A', '- [ ] B', '', '## Notes', 'Text', ''].join('\n'));
+    });
+
+    it('should match the heading text at any level and keep sub-headings in the section', () => {
+      // Arrange
+      const nested = ['## Tasks', '- [ ] A', '### Later', '- [ ] C', '## Notes'].join('\n');
+
+      // Act
+      const updated = insertLineUnderHeading(nested, '- [ ] B', 'tasks');
+
+      // Assert
+      expect(updated).toBe(['## Tasks', '- [ ] A', '### Later', '- [ ] C', '- [ ] B', '## Notes'].join('\n'));
+    });
+
+    it('should add a missing heading at the end of the note', () => {
+      expect(insertLineUnderHeading('# Launch\n\nText\n\n', '- [ ] B', 'Inbox'))
+        .toBe('# Launch\n\nText\n\n## Inbox\n- [ ] B\n');
+    });
+
+    it('should append without a heading, and start empty notes', () => {
+      expect(insertLineUnderHeading('- [ ] A', '- [ ] B', null)).toBe('- [ ] A\n- [ ] B');
+      expect(insertLineUnderHeading('', '- [ ] B', '## Tasks')).toBe('## Tasks\n- [ ] B\n');
+    });
+  });
+
+  describe('addTaskToNote', () => {
+    function createVault(files: Record<string, string>) {
+      return {
+        files,
+        folders: [] as string[],
+        getAbstractFileByPath: jest.fn((path: string) => path in files ? { path, extension: 'md' } : null),
+        process: jest.fn(async (file: { path: string }, fn: (data: string) => string) => {
+          files[file.path] = fn(files[file.path] ?? '');
+          return files[file.path]!;
+        }),
+        create: jest.fn(async (path: string, data: string) => { files[path] = data; }),
+        createFolder: jest.fn(async (path: string) => undefined)
+      };
+    }
+
+    it('should edit an existing note through the write queue', async () => {
+      // Arrange
+      const vault = createVault({ 'Inbox.md': '## Tasks\n- [ ] A\n' });
+
+      // Act
+      await addTaskToNote(vault, { path: 'Inbox.md', heading: '## Tasks' }, '- [ ] B #todo');
+
+      // Assert
+      expect(vault.process).toHaveBeenCalledTimes(1);
+      expect(vault.files['Inbox.md']).toBe('## Tasks\n- [ ] A\n- [ ] B #todo\n');
+    });
+
+    it('should create a missing note and its folder', async () => {
+      const vault = createVault({});
+      await addTaskToNote(vault, { path: 'Daily/2024-01-17.md', heading: null }, '- [ ] B #todo');
+      expect(vault.createFolder).toHaveBeenCalledWith('Daily');
+      expect(vault.create).toHaveBeenCalledWith('Daily/2024-01-17.md', '- [ ] B #todo\n');
+    });
+  });
+
+  describe('getDailyNotePath', () => {
+    it('should use the daily notes folder and default to an ISO file name', () => {
+      const app = {
+        internalPlugins: { getPluginById: () => ({ instance: { options: { folder: '/Journal/' } } }) }
+      };
+      expect(getDailyNotePath(app, new Date(2024, 0, 17))).toBe('Journal/2024-01-17');
+      expect(getDailyNotePath({}, new Date(2024, 0, 17))).toBe('2024-01-17');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  canRewriteLane,
+  getLaneKey,
+  groupTasksByLane,
+  rewriteLaneKey,
+  SwimlaneSettings,
+  UNASSIGNED_LANE
+} from '../../src/Swimlanes';
+import { createTestTask } from '../test-utils';
+
+describe('Swimlanes', () => {
+  const byTag: SwimlaneSettings = { groupBy: 'tag', tagPrefix: '#project' };
+  const byField: SwimlaneSettings = { groupBy: 'field', field: 'project' };
+
+  describe('getLaneKey', () => {
+    it('should key tasks by source folder', () => {
+      // Arrange
+      const task = createTestTask({ file: { path: 'Projects/Alpha/tasks.md' } });
+
+      // Act & Assert
+      expect(getLaneKey(task, { groupBy: 'folder' })).toBe('Projects/Alpha');
+    });
+
+    it('should key root-level files to the root folder', () => {
+      const task = createTestTask({ file: { path: 'tasks.md' } });
+      expect(getLaneKey(task, { groupBy: 'folder' })).toBe('/');
+    });
+
+    it('should key tasks by source file', () => {
+      const task = createTestTask({ file: { path: 'Projects/alpha.md' } });
+      expect(getLaneKey(task, { groupBy: 'file' })).toBe('Projects/alpha.md');
+    });
+
+    it('should key tasks by the first tag under the prefix', () => {
+      // Arrange
+      const task = createTestTask({ tags: ['#todo', '#project/alpha', '#project/beta'] });
+
+      // Act & Assert
+      expect(getLaneKey(task, byTag)).toBe('#project/alpha');
+    });
+
+    it('should not treat the bare prefix tag or similar tags as lanes', () => {
+      const task = createTestTask({ tags: ['#project', '#projects/alpha'] });
+      expect(getLaneKey(task, byTag)).toBe(UNASSIGNED_LANE);
+    });
+
+    it('should key tasks by inline field value', () => {
+      const task = createTestTask({ fields: { Project: 'Apollo' } });
+      expect(getLaneKey(task, byField)).toBe('Apollo');
+    });
+
+    it('should read raw Datacore inline fields', () => {
+      const task = createTestTask({ $infields: { project: { value: 'Gemini' } } });
+      expect(getLaneKey(task, byField)).toBe('Gemini');
+    });
+  });
+
+  describe('groupTasksByLane', () => {
+    it('should group tasks sorted by label with unassigned last', () => {
+      // Arrange
+      const tasks = [
+        createTestTask({ id: 'a', tags: ['#todo'] }),
+        createTestTask({ id: 'b', tags: ['#project/zeta'] }),
+        createTestTask({ id: 'c', tags: ['#project/alpha'] }),
+        createTestTask({ id: 'd', tags: ['#project/zeta'] })
+      ];
+
+      // Act
+      const lanes = groupTasksByLane(tasks, byTag);
+
+      // Assert
+      expect(lanes.map(lane => lane.label)).toEqual(['alpha', 'zeta', 'Unassigned']);
+      expect(lanes[1].tasks.map(task => task.id)).toEqual(['b', 'd']);
+      expect(lanes[2].key).toBe(UNASSIGNED_LANE);
+    });
+
+    it('should label file lanes by basename', () => {
+      const lanes = groupTasksByLane([createTestTask({ file: { path: 'Notes/Sprint 12.md' } })], { groupBy: 'file' });
+      expect(lanes[0].label).toBe('Sprint 12');
+    });
+  });
+
+  describe('canRewriteLane', () => {
+    it('should only allow rewriting tag and field lanes', () => {
+      expect(canRewriteLane(byTag)).toBe(true);
+      expect(canRewriteLane(byField)).toBe(true);
+      expect(canRewriteLane({ groupBy: 'folder' })).toBe(false);
+      expect(canRewriteLane({ groupBy: 'file' })).toBe(false);
+      expect(canRewriteLane({ groupBy: 'field' })).toBe(false);
+    });
+  });
+
+  describe('rewriteLaneKey', () => {
+    it('should replace the lane tag', () => {
+      const line = '- [ ] Ship release #todo #project/alpha #work';
+      expect(rewriteLaneKey(line, byTag, '#project/beta')).toBe('- [ ] Ship release #todo #work #project/beta');
+    });
+
+    it('should remove the lane tag when moving to the unassigned lane', () => {
+      const line = '- [ ] Ship release #project/alpha #todo';
+      expect(rewriteLaneKey(line, byTag, UNASSIGNED_LANE)).toBe('- [ ] Ship release #todo');
+    });
+
+    it('should leave tags sharing the prefix text alone', () => {
+      const line = '- [ ] Ship release #projects/alpha #project/alpha';
+      expect(rewriteLaneKey(line, byTag, '#project/beta')).toBe('- [ ] Ship release #projects/alpha #project/beta');
+    });
+
+    it('should add the lane tag ahead of Tasks fields and the block id', () => {
+      // Arrange
+      const line = '- [ ] Ship release #todo #project/alpha 📅 2024-03-01 🔁 every week ^ship';
+
+      // Act
+      const updated = rewriteLaneKey(line, byTag, '#project/beta');
+
+      // Assert
+      expect(updated).toBe('- [ ] Ship release #todo #project/beta 🔁 every week 📅 2024-03-01 ^ship');
+    });
+
+    it('should replace an existing inline field value', () => {
+      const line = '- [ ] Ship release [project:: Apollo] #todo';
+      expect(rewriteLaneKey(line, byField, 'Gemini')).toBe('- [ ] Ship release #todo [project:: Gemini]');
+    });
+
+    it('should add the inline field when missing', () => {
+      const line = '- [ ] Ship release #todo';
+      expect(rewriteLaneKey(line, byField, 'Gemini')).toBe('- [ ] Ship release #todo [project:: Gemini]');
+    });
+
+    it('should remove the inline field when moving to the unassigned lane', () => {
+      const line = '- [ ] Ship release (project:: Apollo) #todo';
+      expect(rewriteLaneKey(line, byField, UNASSIGNED_LANE)).toBe('- [ ] Ship release #todo');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { applyTaskEdit, describeTaskEdit, validateTaskEdit } from '../../src/TaskEdits';
+
+describe('TaskEdits', () => {
+  describe('validateTaskEdit', () => {
+    it('should reject malformed and impossible dates', () => {
+      expect(validateTaskEdit({ type: 'date', field: 'due', date: '2024/01/15' }))
+        .toBe('Due date must be a valid date as YYYY-MM-DD');
+      expect(validateTaskEdit({ type: 'date', field: 'start', date: '2024-02-30' }))
+        .toBe('Start date must be a valid date as YYYY-MM-DD');
+      expect(validateTaskEdit({ type: 'date', field: 'scheduled', date: null })).toBeNull();
+    });
+
+    it('should reject empty or multi-line text', () => {
+      expect(validateTaskEdit({ type: 'text', text: '   ' })).toBe('Task text can\'t be empty');
+      expect(validateTaskEdit({ type: 'text', text: 'a\nb' })).toBe('Task text must fit on one line');
+    });
+
+    it('should reject invalid tags', () => {
+      expect(validateTaskEdit({ type: 'add-tag', tag: 'two words' })).toBe('"two words" is not a valid tag');
+      expect(validateTaskEdit({ type: 'add-tag', tag: '#2024' })).toBe('Tags need at least one non-numeric character');
+      expect(validateTaskEdit({ type: 'add-tag', tag: 'project/apollo' })).toBeNull();
+    });
+  });
+
+  describe('applyTaskEdit', () => {
+    const line = '  - [ ] Review #api pull request #doing [owner:: Anna] 📅 2024-01-19 ^review';
+
+    it('should replace the text and keep tags, fields and the block id', () => {
+      expect(applyTaskEdit(line, { type: 'text', text: 'Review the release notes' }))
+        .toBe('  - [ ] Review the release notes #doing #api [owner:: Anna] 📅 2024-01-19 ^review');
+    });
+
+    it('should merge metadata typed into the text', () => {
+      expect(applyTaskEdit('- [ ] Deploy #todo', { type: 'text', text: 'Deploy v2 #ops ⏳ 2024-01-10' }))
+        .toBe('- [ ] Deploy v2 #todo #ops ⏳ 2024-01-10');
+    });
+
+    it('should set and clear dates in Tasks order', () => {
+      const scheduled = applyTaskEdit(line, { type: 'date', field: 'scheduled', date: '2024-01-15' });
+      expect(scheduled).toBe('  - [ ] Review #api pull request #doing [owner:: Anna] ⏳ 2024-01-15 📅 2024-01-19 ^review');
+      expect(applyTaskEdit(scheduled, { type: 'date', field: 'due', date: null }))
+        .toBe('  - [ ] Review #api pull request #doing [owner:: Anna] ⏳ 2024-01-15 ^review');
+    });
+
+    it('should set the priority and edit tags', () => {
+      const prioritized = applyTaskEdit('- [ ] Deploy #todo', { type: 'priority', priority: 'highest' });
+      expect(prioritized).toBe('- [ ] Deploy #todo 🔺');
+      expect(applyTaskEdit(prioritized, { type: 'add-tag', tag: 'ops' })).toBe('- [ ] Deploy #todo #ops 🔺');
+      expect(applyTaskEdit(line, { type: 'remove-tag', tag: '#api' }))
+        .toBe('  - [ ] Review pull request #doing [owner:: Anna] 📅 2024-01-19 ^review');
+    });
+
+    it('should throw the validation message for invalid edits', () => {
+      expect(() => applyTaskEdit(line, { type: 'date', field: 'due', date: 'tomorrow' }))
+        .toThrow('Due date must be a valid date as YYYY-MM-DD');
+    });
+  });
+
+  it('should describe edits for the history', () => {
+    expect(describeTaskEdit({ type: 'date', field: 'due', date: null }, 'Deploy')).toBe('Cleared due date of "Deploy"');
+    expect(describeTaskEdit({ type: 'add-tag', tag: 'ops' }, 'Deploy')).toBe('Added #ops to "Deploy"');
+  });
+});
@@ -0,0 +1,61 @@
+import { classifyWriteError, formatTaskError, isRetryableError, missingTaskError, TaskWriteError } from '../../src/TaskErrors';
+
+describe('TaskErrors', () => {
+  const fsError = (code: string) => Object.assign(new Error(`${code}: failed`), { code });
+
+  describe('TaskWriteError', () => {
+    it('should locate the failure with a 1-based line', () => {
+      expect(new TaskWriteError('line-moved', 'Moved', 'a.md', 0).location).toBe('a.md:1');
+      expect(new TaskWriteError('file-missing', 'Gone', 'a.md').location).toBe('a.md');
+    });
+  });
+
+  describe('classifyWriteError', () => {
+    it('should classify file system errors by their code', () => {
+      expect(classifyWriteError(fsError('ENOENT'), 'a.md')).toMatchObject({ kind: 'file-missing', message: 'a.md no longer exists' });
+      expect(classifyWriteError(fsError('EACCES'), 'a.md')).toMatchObject({ kind: 'read-only', message: 'a.md is read-only' });
+      expect(classifyWriteError(fsError('EROFS'), 'a.md')).toMatchObject({ kind: 'read-only' });
+    });
+
+    it('should pass other errors through', () => {
+      // Arrange
+      const typed = new TaskWriteError('parse-failure', 'Unreadable', 'a.md');
+      const other = new Error('Disk on fire');
+
+      // Act & Assert
+      expect(classifyWriteError(typed, 'b.md')).toBe(typed);
+      expect(classifyWriteError(other, 'a.md')).toBe(other);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry failures that can clear up on their own', () => {
+      expect(isRetryableError(new TaskWriteError('line-moved', 'Moved', 'a.md', 1))).toBe(true);
+      expect(isRetryableError(new TaskWriteError('read-only', 'Locked', 'a.md'))).toBe(true);
+      expect(isRetryableError(new Error('Timeout'))).toBe(true);
+    });
+
+    it('should not retry a deleted note or an unreadable line', () => {
+      expect(isRetryableError(new TaskWriteError('file-missing', 'Gone', 'a.md'))).toBe(false);
+      expect(isRetryableError(new TaskWriteError('parse-failure', 'Unreadable', 'a.md', 2))).toBe(false);
+    });
+  });
+
+  describe('formatTaskError', () => {
+    it('should add the location unless the message names it', () => {
+      expect(formatTaskError(new TaskWriteError('parse-failure', 'Task "x" has no source line', 'a.md'))).toBe('Task "x" has no source line (a.md)');
+      expect(formatTaskError(new TaskWriteError('file-missing', 'a.md no longer exists', 'a.md'))).toBe('a.md no longer exists');
+      expect(formatTaskError('plain')).toBe('plain');
+    });
+  });
+
+  describe('missingTaskError', () => {
+    it('should report a task that left its note as moved', () => {
+      expect(missingTaskError('Projects/a.md:4', () => true)).toMatchObject({ kind: 'line-moved', path: 'Projects/a.md', line: 4 });
+    });
+
+    it('should report a deleted note as missing', () => {
+      expect(missingTaskError('Projects/a.md:4', () => false)).toMatchObject({ kind: 'file-missing', path: 'Projects/a.md' });
+    });
+  });
+});
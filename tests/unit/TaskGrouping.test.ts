@@ -0,0 +1,59 @@
+import { groupTasksByColumn, isVirtualColumn, UNSORTED_COLUMN_ID } from '../../src/TaskGrouping';
+import { sampleKanbanSettings, sampleTasks } from '../fixtures/sample-tasks';
+import { createTestTask } from '../test-utils';
+
+describe('TaskGrouping', () => {
+  const columns = sampleKanbanSettings.columns;
+  const untagged = createTestTask({ id: 'untagged', tags: ['#work'] });
+  const tasks = [...sampleTasks, untagged];
+
+  describe('groupTasksByColumn', () => {
+    it('should place tasks in the column matching their status tag', () => {
+      // Act
+      const groups = groupTasksByColumn(sampleTasks, columns);
+
+      // Assert
+      expect(groups.columns.map(column => column.id)).toEqual(['todo', 'doing', 'waiting', 'done']);
+      expect(groups.tasksByColumn.todo).toHaveLength(1);
+      expect(groups.tasksByColumn.doing).toHaveLength(1);
+      expect(groups.tasksByColumn.waiting).toHaveLength(1);
+      expect(groups.tasksByColumn.done).toHaveLength(1);
+    });
+
+    it('should put unmatched tasks in the first column by default', () => {
+      const groups = groupTasksByColumn(tasks, columns);
+      expect(groups.tasksByColumn.todo.map(task => task.id)).toContain('untagged');
+      expect(groups.columns).toHaveLength(4);
+    });
+
+    it('should collect unmatched tasks in a leading virtual column', () => {
+      // Act
+      const groups = groupTasksByColumn(tasks, columns, 'unsorted');
+
+      // Assert
+      expect(groups.columns[0].id).toBe(UNSORTED_COLUMN_ID);
+      expect(isVirtualColumn(groups.columns[0])).toBe(true);
+      expect(groups.tasksByColumn[UNSORTED_COLUMN_ID].map(task => task.id)).toEqual(['untagged']);
+      expect(groups.tasksByColumn.todo).toHaveLength(1);
+    });
+
+    it('should not add the virtual column when every task matches', () => {
+      const groups = groupTasksByColumn(sampleTasks, columns, 'unsorted');
+      expect(groups.columns).toHaveLength(4);
+    });
+
+    it('should hide unmatched tasks and count them', () => {
+      // Act
+      const groups = groupTasksByColumn(tasks, columns, 'hide');
+
+      // Assert
+      expect(groups.hiddenCount).toBe(1);
+      expect(Object.values(groups.tasksByColumn).flat()).toHaveLength(4);
+    });
+
+    it('should handle tasks without a tags array', () => {
+      const groups = groupTasksByColumn([{ id: 'raw' }], columns, 'unsorted');
+      expect(groups.tasksByColumn[UNSORTED_COLUMN_ID]).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  formatTaskLine,
+  getLineTags,
+  replaceStatusTag,
+  TaskFieldName,
+  TaskLineTokens,
+  tokenizeTaskLine
+} from '../../src/TaskLine';
+
+// Small seeded PRNG (mulberry32) so failures are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = ['Review', 'pull', 'request', 'call', 'Anna', 'über', 'fix', 'v2', 'a/b', '"quoted"', '(draft)', 'x:y', '50%'];
+const TAGS = ['#todo', '#doing', '#done', '#todo-later', '#project/apollo', '#déjà-vu', '#bug_fix', '#2024-q1'];
+const KEYS = ['status', 'project', 'order', 'owner'];
+const VALUES = ['review', 'Apollo', '1.5', 'Anna Smith', ''];
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)] as T;
+}
+
+function some<T>(random: () => number, items: readonly T[], max: number): T[] {
+  return Array.from({ length: Math.floor(random() * (max + 1)) }, () => pick(random, items));
+}
+
+function randomDate(random: () => number): string {
+  const month = String(1 + Math.floor(random() * 12)).padStart(2, '0');
+  const day = String(1 + Math.floor(random() * 28)).padStart(2, '0');
+  return `2024-${month}-${day}`;
+}
+
+function randomTokens(random: () => number): TaskLineTokens {
+  const words = some(random, WORDS, 5);
+  // Tags inside the description stay there as long as a word follows them
+  if (words.length > 1 && random() < 0.3) {
+    words.splice(Math.floor(random() * (words.length - 1)), 0, pick(random, TAGS));
+  }
+
+  const fields: TaskLineTokens['fields'] = {};
+  const dateFields: TaskFieldName[] = ['created', 'start', 'scheduled', 'due', 'cancelled', 'done'];
+  dateFields.forEach(name => {
+    if (random() < 0.3) fields[name] = randomDate(random);
+  });
+  if (random() < 0.3) fields.priority = pick(random, ['highest', 'high', 'medium', 'low', 'lowest']);
+  if (random() < 0.2) fields.recurrence = pick(random, ['every day', 'every week on Monday', 'every month when done']);
+  if (random() < 0.1) fields.id = pick(random, ['abc123', 'task-1']);
+  if (random() < 0.1) fields.dependsOn = pick(random, ['abc123', 'task-1,task-2']);
+  if (random() < 0.1) fields.onCompletion = 'delete';
+
+  return {
+    indent: pick(random, ['', '  ', '    ', '\t']),
+    marker: pick(random, ['-', '*', '+', '1.']),
+    status: pick(random, [' ', 'x', '/', '-', '>', '?']),
+    description: words.join(' '),
+    tags: Array.from(new Set(some(random, TAGS, 3))),
+    inlineFields: some(random, KEYS, 2).map(key => ({
+      key,
+      value: pick(random, VALUES),
+      brackets: random() < 0.8 ? '[]' as const : '()' as const
+    })),
+    fields,
+    blockId: random() < 0.15 ? pick(random, ['abc123', 'x-1']) : null
+  };
+}
+
+const EMPTY: TaskLineTokens = {
+  indent: '', marker: '-', status: ' ', description: '', tags: [], inlineFields: [], fields: {}, blockId: null
+};
+
+// Format a single piece of metadata on its own
+function formatPart(part: Partial<TaskLineTokens>): string {
+  return formatTaskLine({ ...EMPTY, ...part }).slice('- [ ] '.length);
+}
+
+// Shuffle the metadata after the description, as hand-written lines often do
+function shuffledLine(tokens: TaskLineTokens, random: () => number): string {
+  const parts = [
+    ...tokens.tags,
+    ...tokens.inlineFields.map(field => formatPart({ inlineFields: [field] })),
+    ...Object.entries(tokens.fields).map(([name, value]) => formatPart({ fields: { [name]: value } }))
+  ];
+  const shuffled = parts
+    .map(part => ({ part, key: random() }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ part }) => part);
+  const block = tokens.blockId ? `^${tokens.blockId}` : '';
+  const body = [tokens.description, ...shuffled, block].filter(Boolean).join(' ');
+  return `${tokens.indent}${tokens.marker} [${tokens.status}]${body ? ` ${body}` : ''}`;
+}
+
+describe('TaskLine', () => {
+  describe('tokenizeTaskLine', () => {
+    it('should split a Tasks line into its parts', () => {
+      // Act
+      const tokens = tokenizeTaskLine('  - [/] Review #api pull request #doing [owner:: Anna] ⏫ 🔁 every week ⏳ 2024-01-15 📅 2024-01-19 ^review');
+
+      // Assert
+      expect(tokens).toEqual({
+        indent: '  ',
+        marker: '-',
+        status: '/',
+        description: 'Review #api pull request',
+        tags: ['#doing'],
+        inlineFields: [{ key: 'owner', value: 'Anna', brackets: '[]' }],
+        fields: { priority: 'high', recurrence: 'every week', scheduled: '2024-01-15', due: '2024-01-19' },
+        blockId: 'review'
+      });
+    });
+
+    it('should keep metadata followed by text in the description', () => {
+      const tokens = tokenizeTaskLine('- [ ] Call 📅 2024-01-15 about #todo the launch');
+      expect(tokens?.description).toBe('Call 📅 2024-01-15 about #todo the launch');
+      expect(tokens?.fields).toEqual({});
+    });
+
+    it('should read alternative emoji and variation selectors', () => {
+      const tokens = tokenizeTaskLine('- [ ] Plan 📆 2024-01-15 ⌛ 2024-01-10 ⏫️');
+      expect(tokens?.fields).toEqual({ due: '2024-01-15', scheduled: '2024-01-10', priority: 'high' });
+    });
+
+    it('should treat malformed fields as text', () => {
+      const tokens = tokenizeTaskLine('- [ ] Plan 📅 soon #123');
+      expect(tokens?.description).toBe('Plan 📅 soon #123');
+    });
+
+    it('should return null for lines that are not tasks', () => {
+      expect(tokenizeTaskLine('Just text #todo')).toBeNull();
+      expect(tokenizeTaskLine('- plain list item')).toBeNull();
+    });
+  });
+
+  describe('formatTaskLine', () => {
+    it('should write metadata in canonical Tasks order', () => {
+      const line = '- [ ] Ship release 📅 2024-02-01 #todo ⏫ [project:: Apollo] ➕ 2024-01-01';
+      expect(formatTaskLine(tokenizeTaskLine(line) as TaskLineTokens))
+        .toBe('- [ ] Ship release #todo [project:: Apollo] ⏫ ➕ 2024-01-01 📅 2024-02-01');
+    });
+
+    it('should write an empty checkbox without trailing space', () => {
+      expect(formatTaskLine(tokenizeTaskLine('- [ ]   ') as TaskLineTokens)).toBe('- [ ]');
+    });
+  });
+
+  describe('round-trip properties', () => {
+    const runs = 500;
+
+    it('should parse what it serializes', () => {
+      const random = createRandom(20240117);
+      for (let i = 0; i < runs; i++) {
+        const tokens = randomTokens(random);
+        const line = formatTaskLine(tokens);
+        expect({ line, tokens: tokenizeTaskLine(line) }).toEqual({ line, tokens });
+      }
+    });
+
+    it('should leave canonical lines byte-for-byte unchanged', () => {
+      const random = createRandom(7);
+      for (let i = 0; i < runs; i++) {
+        const line = formatTaskLine(randomTokens(random));
+        expect(formatTaskLine(tokenizeTaskLine(line) as TaskLineTokens)).toBe(line);
+      }
+    });
+
+    it('should canonicalize shuffled metadata to the same line', () => {
+      const random = createRandom(99);
+      for (let i = 0; i < runs; i++) {
+        const tokens = randomTokens(random);
+        // Duplicate inline field keys keep their relative order, which shuffling would change
+        tokens.inlineFields = tokens.inlineFields.filter((field, index, all) => all.findIndex(f => f.key === field.key) === index);
+        const canonical = formatTaskLine(tokens);
+        const shuffled = shuffledLine(tokens, random);
+        const reparsed = tokenizeTaskLine(shuffled) as TaskLineTokens;
+        expect({ shuffled, fields: reparsed.fields, tags: [...reparsed.tags].sort() })
+          .toEqual({ shuffled, fields: tokens.fields, tags: [...tokens.tags].sort() });
+        expect(formatTaskLine({ ...reparsed, tags: tokens.tags, inlineFields: tokens.inlineFields })).toBe(canonical);
+      }
+    });
+
+    it('should only swap whole status tags when replacing', () => {
+      // Arrange
+      const random = createRandom(1234);
+      const statusTags = ['#todo', '#doing', '#done'];
+
+      for (let i = 0; i < runs; i++) {
+        const tokens = randomTokens(random);
+        const line = formatTaskLine(tokens);
+        const newTag = pick(random, statusTags);
+
+        // Act
+        const updated = tokenizeTaskLine(replaceStatusTag(line, statusTags, newTag)) as TaskLineTokens;
+
+        // Assert
+        const isStatus = (tag: string) => statusTags.includes(tag);
+        const before = getLineTags(tokens).filter(tag => !isStatus(tag));
+        const after = getLineTags(updated);
+        expect(after.filter(tag => !isStatus(tag)).sort()).toEqual(before.sort());
+        expect(Array.from(new Set(after.filter(isStatus)))).toEqual([newTag]);
+        expect(updated.fields).toEqual(tokens.fields);
+        expect(updated.status).toBe(tokens.status);
+      }
+    });
+  });
+
+  describe('replaceStatusTag', () => {
+    const statusTags = ['#todo', '#doing', '#done'];
+
+    it('should not touch longer tags that share a prefix', () => {
+      expect(replaceStatusTag('- [ ] Plan #todo-later #todo', statusTags, '#doing')).toBe('- [ ] Plan #todo-later #doing');
+    });
+
+    it('should handle tags with regex metacharacters', () => {
+      expect(replaceStatusTag('- [ ] Port parser #c++ #todo', ['#c++', '#todo'], '#doing')).toBe('- [ ] Port parser #doing');
+    });
+
+    it('should keep the new tag before Tasks fields', () => {
+      expect(replaceStatusTag('- [ ] Deploy #todo 📅 2024-01-19 ✅ 2024-01-18', statusTags, '#done'))
+        .toBe('- [ ] Deploy #done 📅 2024-01-19 ✅ 2024-01-18');
+    });
+
+    it('should remove status tags from the description', () => {
+      expect(replaceStatusTag('- [ ] #todo Review pull request', statusTags, '#doing')).toBe('- [ ] Review pull request #doing');
+    });
+
+    it('should leave non-task lines alone', () => {
+      expect(replaceStatusTag('Notes about #todo', statusTags, '#doing')).toBe('Notes about #todo');
+    });
+  });
+});
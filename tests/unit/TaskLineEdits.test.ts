@@ -0,0 +1,58 @@
+import { ensureBlockId, postponeDueDate, setStatusTag, toggleTaskCompletion } from '../../src/TaskLineEdits';
+
+describe('TaskLineEdits', () => {
+  describe('setStatusTag', () => {
+    const statusTags = ['#todo', '#doing', '#done'];
+    const today = '2024-01-17';
+
+    it('should check the task off with a done date when it moves to done', () => {
+      expect(setStatusTag('- [ ] Deploy #doing #ops', statusTags, '#done', today)).toBe('- [x] Deploy #ops #done ✅ 2024-01-17');
+    });
+
+    it('should reopen the task and drop its done date when it leaves done', () => {
+      expect(setStatusTag('- [x] Deploy #done ✅ 2024-01-10 ^deploy', statusTags, '#todo', today)).toBe('- [ ] Deploy #todo ^deploy');
+    });
+
+    it('should keep the checkbox between open columns', () => {
+      expect(setStatusTag('- [/] Deploy #todo', statusTags, '#doing', today)).toBe('- [/] Deploy #doing');
+    });
+  });
+
+  describe('toggleTaskCompletion', () => {
+    it('should check a task off with a done date', () => {
+      expect(toggleTaskCompletion('- [ ] Deploy #doing', '2024-01-17')).toBe('- [x] Deploy #doing ✅ 2024-01-17');
+    });
+
+    it('should reopen a checked-off task and drop its done date', () => {
+      expect(toggleTaskCompletion('- [x] Deploy #done ✅ 2024-01-10', '2024-01-17')).toBe('- [ ] Deploy #done');
+    });
+  });
+
+  describe('postponeDueDate', () => {
+    const today = '2024-01-17';
+
+    it('should count from a future due date', () => {
+      expect(postponeDueDate('- [ ] Deploy 📅 2024-01-20', 7, today)).toBe('- [ ] Deploy 📅 2024-01-27');
+    });
+
+    it('should count from today for overdue tasks and tasks without a due date', () => {
+      expect(postponeDueDate('- [ ] Deploy 📅 2024-01-02', 1, today)).toBe('- [ ] Deploy 📅 2024-01-18');
+      expect(postponeDueDate('- [ ] Deploy', 1, today)).toBe('- [ ] Deploy 📅 2024-01-18');
+    });
+  });
+
+  describe('ensureBlockId', () => {
+    it('should keep an existing block id', () => {
+      expect(ensureBlockId('- [ ] Deploy ^abc123', () => 'new')).toEqual({ line: '- [ ] Deploy ^abc123', blockId: 'abc123' });
+    });
+
+    it('should add a block id after the metadata', () => {
+      expect(ensureBlockId('- [ ] Deploy #todo 📅 2024-01-20', () => 'x1y2z3'))
+        .toEqual({ line: '- [ ] Deploy #todo 📅 2024-01-20 ^x1y2z3', blockId: 'x1y2z3' });
+    });
+
+    it('should leave lines that are not tasks alone', () => {
+      expect(ensureBlockId('# Heading', () => 'new')).toEqual({ line: '# Heading', blockId: null });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  getTaskAnchor,
+  hashTaskLine,
+  locateTaskLine,
+  matchesTaskLine,
+  requireTaskLine,
+  TaskAnchor
+} from '../../src/TaskLocator';
+import { createTestTask } from '../test-utils';
+
+describe('TaskLocator', () => {
+  const lines = [
+    '# Tasks',
+    '',
+    '- [ ] Write docs #todo',
+    '- [ ] Review pull request #todo 📅 2024-01-19',
+    '- [ ] Deploy #doing'
+  ];
+
+  describe('getTaskAnchor', () => {
+    it('should read TaskItem and raw Datacore tasks', () => {
+      expect(getTaskAnchor(createTestTask({ text: 'Write docs', line: 2, file: { path: 'a.md' } })))
+        .toEqual({ path: 'a.md', line: 2, text: 'Write docs' });
+      expect(getTaskAnchor({ $file: 'b.md', $line: 4, $text: 'Deploy #doing' }))
+        .toEqual({ path: 'b.md', line: 4, text: 'Deploy #doing' });
+    });
+
+    it('should return null without a line', () => {
+      expect(getTaskAnchor({ text: 'Floating' })).toBeNull();
+    });
+  });
+
+  describe('matchesTaskLine', () => {
+    it('should ignore tags, fields and status when comparing text', () => {
+      const anchor: TaskAnchor = { path: 'a.md', line: 3, text: 'Review pull request' };
+      expect(matchesTaskLine('- [x] Review   pull request #done ✅ 2024-01-20', anchor)).toBe(true);
+      expect(matchesTaskLine('- [ ] Review pull request carefully #todo', anchor)).toBe(false);
+    });
+
+    it('should accept the full indexed text including metadata', () => {
+      const anchor: TaskAnchor = { path: 'a.md', line: 3, text: 'Review pull request #todo 📅 2024-01-19' };
+      expect(matchesTaskLine(lines[3] as string, anchor)).toBe(true);
+    });
+
+    it('should match on a line hash', () => {
+      const anchor: TaskAnchor = { path: 'a.md', line: 4, hash: hashTaskLine('- [ ] Deploy #doing') };
+      expect(matchesTaskLine('  - [ ] Deploy #doing  ', anchor)).toBe(true);
+      expect(matchesTaskLine('- [ ] Deploy #done', anchor)).toBe(false);
+    });
+
+    it('should never match a line that is not a task', () => {
+      expect(matchesTaskLine('Write docs', { path: 'a.md', line: 0, text: 'Write docs' })).toBe(false);
+    });
+  });
+
+  describe('locateTaskLine', () => {
+    it('should keep the recorded line when it still holds the task', () => {
+      expect(locateTaskLine(lines, { path: 'a.md', line: 3, text: 'Review pull request' })).toBe(3);
+    });
+
+    it('should find a task that shifted after an edit above it', () => {
+      // Arrange
+      const edited = ['# Tasks', 'New intro paragraph', '', '- [ ] Added task', ...lines.slice(2)];
+
+      // Act
+      const line = locateTaskLine(edited, { path: 'a.md', line: 3, text: 'Review pull request' });
+
+      // Assert
+      expect(line).toBe(5);
+    });
+
+    it('should prefer the nearest of duplicate tasks', () => {
+      const duplicates = ['- [ ] Call Anna', '', '', '', '- [ ] Other', '- [ ] Call Anna'];
+      expect(locateTaskLine(duplicates, { path: 'a.md', line: 4, text: 'Call Anna' })).toBe(5);
+    });
+
+    it('should give up outside the search window', () => {
+      const far = [...Array(10).fill(''), '- [ ] Write docs'];
+      expect(locateTaskLine(far, { path: 'a.md', line: 0, text: 'Write docs' }, 5)).toBeNull();
+    });
+  });
+
+  describe('requireTaskLine', () => {
+    it('should throw a clear error instead of returning an unrelated line', () => {
+      const edited = ['# Tasks', '- [ ] Something else'];
+      expect(() => requireTaskLine(edited, { path: 'Projects/a.md', line: 1, text: 'Write docs' }))
+        .toThrow('"Write docs" is no longer at Projects/a.md:2 and was not found nearby');
+    });
+
+    it('should throw a typed error pointing at the recorded line', () => {
+      expect(() => requireTaskLine([], { path: 'a.md', line: 4, text: 'Write docs' }))
+        .toThrow(expect.objectContaining({ kind: 'line-moved', location: 'a.md:5' }));
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  getSourcePaneType,
+  getSourceSelection,
+  getTaskLinkText,
+  openTaskSource,
+  triggerTaskHover
+} from '../../src/TaskNavigation';
+
+describe('TaskNavigation', () => {
+  const noKeys = { ctrlKey: false, metaKey: false, altKey: false, shiftKey: false };
+
+  describe('getSourcePaneType', () => {
+    it('should follow the Obsidian link modifiers', () => {
+      expect(getSourcePaneType(noKeys)).toBe(false);
+      expect(getSourcePaneType({ ...noKeys, metaKey: true })).toBe('tab');
+      expect(getSourcePaneType({ ...noKeys, ctrlKey: true, altKey: true })).toBe('split');
+      expect(getSourcePaneType({ ...noKeys, ctrlKey: true, altKey: true, shiftKey: true })).toBe('window');
+      expect(getSourcePaneType({ ...noKeys, button: 1 })).toBe('tab');
+    });
+  });
+
+  describe('getSourceSelection', () => {
+    const content = ['# Tasks', 'Intro', '  - [ ] Deploy #todo  ', '- [ ] Other'].join('\n');
+
+    it('should select the located line without its indent', () => {
+      // Arrange: the index still records the line before "Intro" was added
+      const anchor = { path: 'a.md', line: 1, text: 'Deploy' };
+
+      // Act
+      const selection = getSourceSelection(content, anchor);
+
+      // Assert
+      expect(selection).toEqual({ line: 2, from: { line: 2, ch: 2 }, to: { line: 2, ch: 20 } });
+    });
+
+    it('should fall back to the recorded line, within the note', () => {
+      expect(getSourceSelection(content, { path: 'a.md', line: 9, text: 'Gone' }).line).toBe(3);
+    });
+  });
+
+  describe('getTaskLinkText', () => {
+    it('should link to the block when the task has a block id', () => {
+      expect(getTaskLinkText({ file: { path: 'a.md' }, text: 'Deploy #todo ^deploy' })).toBe('a.md#^deploy');
+      expect(getTaskLinkText({ $file: 'b.md', $text: 'Deploy' })).toBe('b.md');
+    });
+  });
+
+  describe('openTaskSource', () => {
+    it('should open the note in the chosen pane at the task line', async () => {
+      // Arrange
+      const file = { path: 'a.md' };
+      const openFile = jest.fn(async () => undefined);
+      const app = {
+        vault: {
+          getAbstractFileByPath: jest.fn(() => file),
+          cachedRead: jest.fn(async () => '# Tasks\n- [ ] Deploy #todo')
+        },
+        workspace: { getLeaf: jest.fn(() => ({ openFile })) }
+      };
+
+      // Act
+      await openTaskSource(app, { file, line: 1, text: 'Deploy' }, 'split');
+
+      // Assert
+      expect(app.workspace.getLeaf).toHaveBeenCalledWith('split');
+      expect(openFile).toHaveBeenCalledWith(file, {
+        active: true,
+        eState: { line: 1, cursor: { from: { line: 1, ch: 0 }, to: { line: 1, ch: 18 } } }
+      });
+    });
+
+    it('should reject when the note is gone', async () => {
+      const app = {
+        vault: { getAbstractFileByPath: () => null, cachedRead: async () => '' },
+        workspace: { getLeaf: jest.fn() }
+      };
+      await expect(openTaskSource(app, { file: { path: 'gone.md' }, line: 0 })).rejects.toThrow('gone.md no longer exists');
+      expect(app.workspace.getLeaf).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('triggerTaskHover', () => {
+    it('should trigger hover-link scrolled to the task line', () => {
+      // Arrange
+      const workspace = { trigger: jest.fn() };
+      const event = { currentTarget: 'link', target: 'span' } as unknown as MouseEvent;
+      const parent = { hoverPopover: null };
+
+      // Act
+      triggerTaskHover(workspace, event, { file: { path: 'a.md' }, line: 4, text: 'Deploy' }, parent);
+
+      // Assert
+      expect(workspace.trigger).toHaveBeenCalledWith('hover-link', expect.objectContaining({
+        source: 'kanban-board-view',
+        hoverParent: parent,
+        targetEl: 'link',
+        linktext: 'a.md',
+        state: { scroll: 4 }
+      }));
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { filterTasksByScope, getLinkedPaths, getParentFolder, getScopeLabel } from '../../src/TaskScope';
+import { createTestTask } from '../test-utils';
+
+describe('TaskScope', () => {
+  const inNote = createTestTask({ id: 'note', file: { path: 'Projects/Launch/Plan.md' } });
+  const inFolder = createTestTask({ id: 'folder', file: { path: 'Projects/Launch/Notes.md' } });
+  const inSubfolder = createTestTask({ id: 'sub', file: { path: 'Projects/Launch/Archive/Old.md' } });
+  const elsewhere = createTestTask({ id: 'other', file: { path: 'Projects/Launchpad.md' } });
+  const tasks = [inNote, inFolder, inSubfolder, elsewhere];
+  const path = 'Projects/Launch/Plan.md';
+
+  describe('filterTasksByScope', () => {
+    it('should keep every task for the vault scope', () => {
+      expect(filterTasksByScope(tasks, 'vault', { path })).toBe(tasks);
+    });
+
+    it('should keep the tasks of the current file', () => {
+      expect(filterTasksByScope(tasks, 'file', { path }).map(task => task.id)).toEqual(['note']);
+    });
+
+    it('should keep the tasks of the current folder and its subfolders', () => {
+      expect(filterTasksByScope(tasks, 'folder', { path }).map(task => task.id)).toEqual(['note', 'folder', 'sub']);
+    });
+
+    it('should keep the tasks of linked notes', () => {
+      const linkedPaths = new Set(['Projects/Launchpad.md']);
+      expect(filterTasksByScope(tasks, 'links', { path, linkedPaths }).map(task => task.id)).toEqual(['other']);
+      expect(filterTasksByScope(tasks, 'links', { path })).toEqual([]);
+    });
+
+    it('should keep tasks whose project field refers to the note', () => {
+      // Arrange
+      const byLink = createTestTask({ id: 'link', fields: { project: '[[Plan|Launch plan]]' } });
+      const byPath = createTestTask({ id: 'path', fields: { Project: 'Projects/Launch/Plan' } });
+      const byObject = createTestTask({ id: 'object', $infields: { project: { value: { path } } } });
+      const other = createTestTask({ id: 'other', fields: { project: '[[Roadmap]]' } });
+
+      // Act
+      const scoped = filterTasksByScope([byLink, byPath, byObject, other], 'project', { path });
+
+      // Assert
+      expect(scoped.map(task => task.id)).toEqual(['link', 'path', 'object']);
+    });
+
+    it('should read raw Datacore tasks', () => {
+      expect(filterTasksByScope([{ id: 'raw', $file: path }], 'file', { path })).toHaveLength(1);
+    });
+
+    it('should not filter without a current file', () => {
+      expect(filterTasksByScope(tasks, 'file', { path: null })).toBe(tasks);
+    });
+  });
+
+  describe('getLinkedPaths', () => {
+    it('should collect outgoing and incoming links', () => {
+      // Arrange
+      const resolvedLinks = {
+        [path]: { 'Roadmap.md': 1, [path]: 1 },
+        'Daily/2024-01-17.md': { [path]: 2 },
+        'Unrelated.md': { 'Roadmap.md': 1 }
+      };
+
+      // Act
+      const linked = getLinkedPaths(resolvedLinks, path);
+
+      // Assert
+      expect(Array.from(linked).sort()).toEqual(['Daily/2024-01-17.md', 'Roadmap.md']);
+    });
+  });
+
+  it('should label each scope for the header badge', () => {
+    expect(getScopeLabel('file', path)).toBe('📄 Plan');
+    expect(getScopeLabel('folder', path)).toBe('📁 Projects/Launch');
+    expect(getScopeLabel('links', path)).toBe('🔗 Linked with Plan');
+    expect(getScopeLabel('project', path)).toBe('🎯 Project: Plan');
+    expect(getScopeLabel('vault', path)).toBe('🗄️ Vault');
+  });
+
+  it('should get parent folders', () => {
+    expect(getParentFolder(path)).toBe('Projects/Launch');
+    expect(getParentFolder('Inbox.md')).toBe('');
+  });
+});
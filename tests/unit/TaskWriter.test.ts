@@ -0,0 +1,84 @@
+import { getTaskWriter, ProcessVault, TaskWriter } from '../../src/TaskWriter';
+import { TaskWriteError } from '../../src/TaskErrors';
+
+type TestFile = { path: string };
+
+// In-memory vault whose process() yields between read and write, like a real disk write
+function createVault(files: Record<string, string>) {
+  const writes: string[] = [];
+  const vault: ProcessVault<TestFile> = {
+    process: jest.fn(async (file: TestFile, fn: (data: string) => string) => {
+      const content = files[file.path] ?? '';
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const updated = fn(content);
+      files[file.path] = updated;
+      writes.push(file.path);
+      return updated;
+    })
+  };
+  return { vault, files, writes };
+}
+
+describe('TaskWriter', () => {
+  const file = { path: 'tasks.md' };
+  const content = ['- [ ] Write docs #todo', '- [ ] Deploy #todo'].join('\n');
+
+  it('should serialize concurrent edits on the same file', async () => {
+    // Arrange
+    const { vault, files } = createVault({ 'tasks.md': content });
+    const writer = new TaskWriter(vault);
+
+    // Act
+    await Promise.all([
+      writer.editTaskLine(file, { path: file.path, line: 0, text: 'Write docs' }, line => line.replace('#todo', '#doing')),
+      writer.editTaskLine(file, { path: file.path, line: 1, text: 'Deploy' }, line => line.replace('#todo', '#done'))
+    ]);
+
+    // Assert
+    expect(files['tasks.md']).toBe(['- [ ] Write docs #doing', '- [ ] Deploy #done'].join('\n'));
+  });
+
+  it('should report whether the content changed', async () => {
+    const { vault } = createVault({ 'tasks.md': content });
+    const writer = new TaskWriter(vault);
+
+    await expect(writer.editFile(file, text => text)).resolves.toBe(false);
+    await expect(writer.editFile(file, text => `${text}\n`)).resolves.toBe(true);
+  });
+
+  it('should reject a conflicting edit without writing and keep the queue going', async () => {
+    // Arrange
+    const { vault, files } = createVault({ 'tasks.md': content });
+    const writer = new TaskWriter(vault);
+    (vault.process as jest.Mock).mockImplementationOnce(async (_file: TestFile, fn: (data: string) => string) => fn('# Rewritten note'));
+
+    // Act
+    const conflict = writer.editTaskLine(file, { path: file.path, line: 0, text: 'Write docs' }, line => `${line} #urgent`);
+    const next = writer.editTaskLine(file, { path: file.path, line: 1, text: 'Deploy' }, line => line.replace('#todo', '#done'));
+
+    // Assert
+    await expect(conflict).rejects.toThrow('"Write docs" is no longer at tasks.md:1');
+    await expect(next).resolves.toBe(true);
+    expect(files['tasks.md']).toBe(['- [ ] Write docs #todo', '- [ ] Deploy #done'].join('\n'));
+  });
+
+  it('should report a deleted note as a missing file', async () => {
+    // Arrange
+    const { vault } = createVault({});
+    const writer = new TaskWriter(vault);
+    (vault.process as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' }));
+
+    // Act
+    const error = await writer.editFile(file, text => text).catch(err => err);
+
+    // Assert
+    expect(error).toBeInstanceOf(TaskWriteError);
+    expect(error).toMatchObject({ kind: 'file-missing', path: 'tasks.md', message: 'tasks.md no longer exists' });
+  });
+
+  it('should share one writer per vault', () => {
+    const { vault } = createVault({});
+    expect(getTaskWriter(vault)).toBe(getTaskWriter(vault));
+    expect(getTaskWriter(createVault({}).vault)).not.toBe(getTaskWriter(vault));
+  });
+});
@@ -0,0 +1,48 @@
+import { formatWipCount, getWipDropError, getWipState } from '../../src/WipLimits';
+
+describe('WipLimits', () => {
+  const doing = { name: 'In Progress', wipLimit: 3 };
+
+  describe('getWipState', () => {
+    it('should report no limit when wipLimit is unset or not positive', () => {
+      expect(getWipState({ name: 'To Do' }, 10).limit).toBeNull();
+      expect(getWipState({ name: 'To Do', wipLimit: 0 }, 10).limit).toBeNull();
+      expect(getWipState({ name: 'To Do' }, 10).exceeded).toBe(false);
+    });
+
+    it('should only flag columns above the limit as exceeded', () => {
+      expect(getWipState(doing, 3).exceeded).toBe(false);
+      expect(getWipState(doing, 4).exceeded).toBe(true);
+    });
+
+    it('should default to warn mode', () => {
+      expect(getWipState(doing, 1).mode).toBe('warn');
+    });
+  });
+
+  describe('formatWipCount', () => {
+    it('should format count and limit', () => {
+      expect(formatWipCount(getWipState(doing, 2))).toBe('2 / 3');
+      expect(formatWipCount(getWipState({ name: 'To Do' }, 7))).toBe('7');
+    });
+  });
+
+  describe('getWipDropError', () => {
+    it('should allow drops in warn mode even over the limit', () => {
+      expect(getWipDropError({ ...doing, wipMode: 'warn' }, 5)).toBeNull();
+    });
+
+    it('should allow drops below the limit in block mode', () => {
+      expect(getWipDropError({ ...doing, wipMode: 'block' }, 2)).toBeNull();
+    });
+
+    it('should refuse drops at the limit in block mode', () => {
+      // Act
+      const error = getWipDropError({ ...doing, wipMode: 'block' }, 3);
+
+      // Assert
+      expect(error).toContain('In Progress');
+      expect(error).toContain('WIP limit (3)');
+    });
+  });
+});